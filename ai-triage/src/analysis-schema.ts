@@ -0,0 +1,87 @@
+/**
+ * JSON Schema for the TriageAnalysis response
+ *
+ * This is the single description of the model's output shape. Providers
+ * translate it into their native structured-output mechanism (Anthropic tool
+ * input schema, OpenAI json_schema response format). It follows the subset
+ * OpenAI strict mode accepts: every property is required, nullable fields
+ * use a type union and no additional properties are allowed.
+ */
+
+const PRIORITY = { type: "string", enum: ["P0", "P1", "P2"] };
+const SIZE = { type: "string", enum: ["XS", "S", "M", "L", "XL"] };
+const STRING_ARRAY = { type: "array", items: { type: "string" } };
+const INTEGER_ARRAY = { type: "array", items: { type: "integer" } };
+
+const SUBTASK_SCHEMA = {
+  type: "object",
+  properties: {
+    id: {
+      type: "string",
+      description: "Short unique id other new subtasks use in blocked_by",
+    },
+    title: { type: "string" },
+    body: {
+      type: "string",
+      description: "Detailed description with acceptance criteria",
+    },
+    blocked_by: {
+      ...STRING_ARRAY,
+      description: 'Ids of other new subtasks, or "#N" for existing issues',
+    },
+    labels: STRING_ARRAY,
+    priority: PRIORITY,
+    size: SIZE,
+  },
+  required: ["id", "title", "body", "blocked_by", "labels", "priority", "size"],
+  additionalProperties: false,
+};
+
+const SUBTASK_FEEDBACK_SCHEMA = {
+  type: "object",
+  properties: {
+    issue_number: { type: "integer" },
+    feedback: { type: "string" },
+    is_ready: { type: "boolean" },
+    suggested_improvements: STRING_ARRAY,
+  },
+  required: ["issue_number", "feedback", "is_ready", "suggested_improvements"],
+  additionalProperties: false,
+};
+
+export const TRIAGE_ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    is_agent_ready: { type: "boolean" },
+    labels: STRING_ARRAY,
+    priority: PRIORITY,
+    size: SIZE,
+    related_issues: INTEGER_ARRAY,
+    duplicate_of: { type: ["integer", "null"] },
+    suggested_assignee: { type: ["string", "null"] },
+    clarifying_questions: STRING_ARRAY,
+    enhanced_description: { type: ["string", "null"] },
+    reasoning: { type: "string" },
+    needs_subtasks: { type: "boolean" },
+    subtasks_to_create: { type: "array", items: SUBTASK_SCHEMA },
+    subtask_feedback: { type: "array", items: SUBTASK_FEEDBACK_SCHEMA },
+    overall_subtask_feedback: { type: ["string", "null"] },
+  },
+  required: [
+    "is_agent_ready",
+    "labels",
+    "priority",
+    "size",
+    "related_issues",
+    "duplicate_of",
+    "suggested_assignee",
+    "clarifying_questions",
+    "enhanced_description",
+    "reasoning",
+    "needs_subtasks",
+    "subtasks_to_create",
+    "subtask_feedback",
+    "overall_subtask_feedback",
+  ],
+  additionalProperties: false,
+};
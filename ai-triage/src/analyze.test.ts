@@ -0,0 +1,45 @@
+import { parseAIResponse } from "./analyze";
+
+const RESPONSE = {
+  is_agent_ready: true,
+  labels: ["type:bug"],
+  priority: "P2",
+  size: "S",
+  related_issues: [12],
+  duplicate_of: null,
+  suggested_assignee: null,
+  clarifying_questions: [],
+  enhanced_description: null,
+  reasoning: "A small, well-described bug.",
+  needs_subtasks: false,
+  subtasks_to_create: [],
+  subtask_feedback: [],
+  overall_subtask_feedback: null,
+};
+
+describe("parseAIResponse", () => {
+  it("accepts issue references written as strings", () => {
+    const { analysis, coerced } = parseAIResponse(
+      JSON.stringify({ ...RESPONSE, related_issues: ["#12", "15"] }),
+    );
+
+    expect(coerced).toBe(true);
+    expect(analysis?.related_issues).toEqual([12, 15]);
+  });
+
+  it("rejects labels and related issues of the wrong type", () => {
+    const { analysis, errors } = parseAIResponse(
+      JSON.stringify({
+        ...RESPONSE,
+        labels: ["type:bug", { name: "scope:api" }],
+        related_issues: [12, "12|.*", -3],
+      }),
+    );
+
+    expect(analysis).toBeUndefined();
+    expect(errors).toEqual([
+      "labels must be an array of strings",
+      "related_issues must be an array of issue numbers",
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { runBatch } from "./batch";
+import { ModelUsage, RepoContext, TriageIssue } from "./types";
+
+const ISSUES: TriageIssue[] = [1, 2, 3].map((number) => ({
+  number,
+  title: `Issue ${number}`,
+  body: "",
+  node_id: `I_${number}`,
+}));
+
+/**
+ * Context whose rate limit lookup fails on the given calls (1-based)
+ */
+function rateLimitContext(failingCalls: number[]): RepoContext {
+  let calls = 0;
+  const plenty = { remaining: 5000, reset: 0 };
+  return {
+    owner: "acme",
+    repo: "widgets",
+    octokit: {
+      rest: {
+        rateLimit: {
+          get: async () => {
+            calls++;
+            if (failingCalls.includes(calls)) {
+              throw new Error("Service unavailable");
+            }
+            return { data: { resources: { core: plenty, search: plenty } } };
+          },
+        },
+      },
+    },
+  } as unknown as RepoContext;
+}
+
+describe("runBatch", () => {
+  it("fails only the issue whose rate limit check fails", async () => {
+    const triaged: number[] = [];
+
+    const results = await runBatch(
+      rateLimitContext([2]),
+      ISSUES,
+      2,
+      async (issue) => {
+        triaged.push(issue.number);
+        return { plannedOperations: 0, findings: [] };
+      },
+    );
+
+    expect(results.map((r) => r.status)).toEqual([
+      "deferred",
+      "failed",
+      "deferred",
+    ]);
+    expect(results[1].error).toBe("Service unavailable");
+    expect(triaged).toEqual([1, 3]);
+  });
+
+  it("keeps the usage of an issue that fails after its model calls", async () => {
+    const call: ModelUsage = {
+      provider: "github",
+      model: "xai/grok-3-mini",
+      inputTokens: 1200,
+      outputTokens: 300,
+      estimated: false,
+      latencyMs: 900,
+      timestamp: "2026-10-19T12:00:00Z",
+    };
+
+    const results = await runBatch(
+      rateLimitContext([]),
+      ISSUES.slice(0, 1),
+      1,
+      async (_issue, onUsage) => {
+        onUsage(call);
+        throw new Error("Failed to add labels");
+      },
+    );
+
+    expect(results[0]).toMatchObject({ status: "failed", usage: [call] });
+  });
+});
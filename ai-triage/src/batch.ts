@@ -0,0 +1,293 @@
+/**
+ * Batch triage of existing issues
+ *
+ * Used from `schedule` or `workflow_dispatch` runs to work through issues
+ * that predate the action. Issues matching a search query are triaged a few
+ * at a time; before each one the GitHub rate limits are checked so a large
+ * backlog stops cleanly instead of failing midway.
+ */
+
+import * as core from "@actions/core";
+import { ModelUsage, RepoContext, TriageAnalysis, TriageIssue } from "./types";
+
+/** Core API requests kept in reserve; below this no new issue is started */
+const CORE_RATE_LIMIT_RESERVE = 200;
+
+/** Search API requests needed per issue (related issue search) */
+const SEARCH_RATE_LIMIT_RESERVE = 2;
+
+/** Longest wait for a rate limit reset before giving up on the batch */
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * Which issues are triaged and how many at once
+ */
+export interface BatchOptions {
+  /** Search qualifiers, e.g. "label:needs-triage" or "no:label" */
+  query: string;
+
+  /** Maximum number of issues triaged per run */
+  limit: number;
+
+  /** Issues triaged in parallel */
+  concurrency: number;
+}
+
+/**
+ * Outcome of triaging one issue in a batch
+ */
+export interface BatchResult {
+  issue: number;
+  title: string;
+  status: "triaged" | "failed" | "skipped" | "deferred";
+  analysis?: TriageAnalysis;
+
+  /** Operations recorded in dry-run mode */
+  plannedOperations?: number;
+
+  /** Model calls made for this issue */
+  usage?: ModelUsage[];
+
+  /** Why the issue was held for human review */
+  findings?: string[];
+
+  error?: string;
+}
+
+/**
+ * Triage a single issue; returns the analysis (none when deferred) and
+ * planned operation count. Each model call is passed to `onUsage` as it
+ * completes, so calls are counted even when the triage fails afterwards.
+ */
+export type TriageFunction = (
+  issue: TriageIssue,
+  onUsage: (usage: ModelUsage) => void,
+) => Promise<{
+  analysis?: TriageAnalysis;
+  plannedOperations: number;
+  findings: string[];
+}>;
+
+/**
+ * Find the open issues matching the batch query, oldest first
+ */
+export async function findBatchIssues(
+  ctx: RepoContext,
+  options: BatchOptions,
+): Promise<TriageIssue[]> {
+  const q = `repo:${ctx.owner}/${ctx.repo} is:issue is:open ${options.query}`;
+  core.info(`Searching for issues to triage: ${q}`);
+
+  const { data } = await ctx.octokit.rest.search.issuesAndPullRequests({
+    q,
+    sort: "created",
+    order: "asc",
+    per_page: Math.min(options.limit, 100),
+  });
+
+  const issues = data.items
+    .filter((item) => !item.pull_request)
+    .slice(0, options.limit)
+    .map((item) => ({
+      number: item.number,
+      title: item.title,
+      body: item.body || "",
+      node_id: item.node_id,
+      labels: item.labels.flatMap((l) => (l.name ? [l.name] : [])),
+    }));
+
+  core.info(
+    `Found ${data.total_count} matching issue(s), triaging ${issues.length}`,
+  );
+  return issues;
+}
+
+/**
+ * Triage issues with limited concurrency
+ *
+ * A failure on one issue is recorded and the batch carries on. When the
+ * rate limit runs low and does not reset soon, the remaining issues are
+ * skipped.
+ */
+export async function runBatch(
+  ctx: RepoContext,
+  issues: TriageIssue[],
+  concurrency: number,
+  triage: TriageFunction,
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(issues.length);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (next < issues.length) {
+      const index = next++;
+      const issue = issues[index];
+      const usage: ModelUsage[] = [];
+
+      try {
+        // Checked per issue, so a failing check fails only this issue
+        if (!stopped && !(await waitForRateLimit(ctx))) {
+          stopped = true;
+        }
+        if (stopped) {
+          results[index] = {
+            issue: issue.number,
+            title: issue.title,
+            status: "skipped",
+            error: "Rate limit exhausted",
+          };
+          continue;
+        }
+
+        core.info(`▶️ Triaging #${issue.number}: ${issue.title}`);
+        const { analysis, plannedOperations, findings } = await triage(
+          issue,
+          (call) => usage.push(call),
+        );
+        results[index] = {
+          issue: issue.number,
+          title: issue.title,
+          status: analysis ? "triaged" : "deferred",
+          analysis,
+          plannedOperations,
+          findings,
+          error: analysis ? undefined : "Budget limit reached",
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.error(`Failed to triage #${issue.number}: ${message}`);
+        results[index] = {
+          issue: issue.number,
+          title: issue.title,
+          status: "failed",
+          error: message,
+        };
+      } finally {
+        results[index].usage = usage;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+  );
+  return results;
+}
+
+/**
+ * Publish the batch results as the `batch-results` output and in the job
+ * summary
+ */
+export async function writeBatchSummary(
+  results: BatchResult[],
+  dryRun: boolean,
+): Promise<void> {
+  core.setOutput(
+    "batch-results",
+    JSON.stringify(
+      results.map((r) => ({
+        issue: r.issue,
+        status: r.status,
+        priority: r.analysis?.priority,
+        size: r.analysis?.size,
+        is_agent_ready: r.analysis?.is_agent_ready,
+        labels: r.analysis?.labels,
+        duplicate_of: r.analysis?.duplicate_of,
+        needs_human: r.findings ? r.findings.length > 0 : undefined,
+        planned_operations: r.plannedOperations,
+        error: r.error,
+      })),
+    ),
+  );
+
+  const count = (status: BatchResult["status"]): number =>
+    results.filter((r) => r.status === status).length;
+
+  await core.summary
+    .addHeading(`AI Triage batch${dryRun ? " (dry run)" : ""}`)
+    .addRaw(
+      `${count("triaged")} triaged, ${count("deferred")} deferred, ${count("failed")} failed, ${count("skipped")} skipped.`,
+      true,
+    )
+    .addTable([
+      [
+        { data: "Issue", header: true },
+        { data: "Title", header: true },
+        { data: "Result", header: true },
+        { data: "Priority", header: true },
+        { data: "Size", header: true },
+        { data: "Agent ready", header: true },
+        { data: "Labels", header: true },
+      ],
+      ...results.map((r) => [
+        `#${r.issue}`,
+        r.title,
+        describeResult(r, dryRun),
+        r.analysis?.priority ?? "",
+        r.analysis?.size ?? "",
+        r.analysis ? (r.analysis.is_agent_ready ? "✅" : "❌") : "",
+        r.analysis?.labels.join(", ") ?? "",
+      ]),
+    ])
+    .write();
+
+  core.info(
+    `✅ Batch complete: ${count("triaged")} triaged, ${count("deferred")} deferred, ${count("failed")} failed, ${count("skipped")} skipped`,
+  );
+}
+
+function describeResult(result: BatchResult, dryRun: boolean): string {
+  if (result.status !== "triaged") {
+    return `${result.status}: ${result.error}`;
+  }
+  if (result.findings && result.findings.length > 0) {
+    return "held for human review";
+  }
+  if (result.analysis?.duplicate_of) {
+    return `duplicate of #${result.analysis.duplicate_of}`;
+  }
+  return dryRun
+    ? `${result.plannedOperations} planned operation(s)`
+    : "triaged";
+}
+
+/**
+ * Make sure enough API requests are left to triage another issue
+ *
+ * Waits for the rate limit to reset when that happens soon; returns false
+ * when the batch should stop instead.
+ */
+async function waitForRateLimit(ctx: RepoContext): Promise<boolean> {
+  const { data } = await ctx.octokit.rest.rateLimit.get();
+  const limits = [
+    { name: "core", reserve: CORE_RATE_LIMIT_RESERVE, ...data.resources.core },
+    {
+      name: "search",
+      reserve: SEARCH_RATE_LIMIT_RESERVE,
+      ...data.resources.search,
+    },
+  ];
+
+  for (const limit of limits) {
+    if (limit.remaining >= limit.reserve) {
+      continue;
+    }
+
+    const waitMs = limit.reset * 1000 - Date.now() + 1000;
+    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+      core.warning(
+        `GitHub ${limit.name} rate limit low (${limit.remaining} left), resets at ` +
+          `${new Date(limit.reset * 1000).toISOString()}; stopping the batch`,
+      );
+      return false;
+    }
+
+    core.info(
+      `⏳ GitHub ${limit.name} rate limit low, waiting ${Math.ceil(waitMs / 1000)}s for reset`,
+    );
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, waitMs)));
+  }
+
+  return true;
+}
@@ -0,0 +1,56 @@
+import { Budget, budgetModels, recordBudgetUsage } from "./budget";
+import { BudgetConfig, ModelUsage } from "./types";
+
+/**
+ * Budget with nothing spent yet under the given limits
+ */
+function emptyBudget(limits: Partial<BudgetConfig>): Budget {
+  const today = new Date().toISOString().slice(0, 10);
+  return {
+    config: {
+      max_calls_per_day: 0,
+      max_cost_per_month: 0,
+      max_tokens_per_issue: 0,
+      fallback_models: ["xai/grok-3-mini"],
+      ...limits,
+    },
+    prices: {},
+    store: "issue",
+    state: { day: today, calls: 0, month: today.slice(0, 7), cost: 0 },
+    spent: { calls: 0, cost: 0 },
+  };
+}
+
+function call(model: string): ModelUsage {
+  return {
+    provider: "openai",
+    model,
+    inputTokens: 1000,
+    outputTokens: 200,
+    estimated: false,
+    latencyMs: 800,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe("recordBudgetUsage", () => {
+  it("defers the next issues when a call has no price under a cost limit", () => {
+    const budget = emptyBudget({ max_cost_per_month: 20 });
+
+    recordBudgetUsage(budget, call("acme-large"));
+
+    expect(budget.spent.calls).toBe(1);
+    expect(budgetModels(budget, ["acme-large"])).toEqual({
+      status: "deferred",
+      models: [],
+    });
+  });
+
+  it("counts calls without a price when only calls are limited", () => {
+    const budget = emptyBudget({ max_calls_per_day: 10 });
+
+    recordBudgetUsage(budget, call("acme-large"));
+
+    expect(budgetModels(budget, ["acme-large"]).status).toBe("ok");
+  });
+});
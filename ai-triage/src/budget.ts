@@ -0,0 +1,420 @@
+/**
+ * Spending guardrails for model calls
+ *
+ * Counts model calls per UTC day and estimated cost per UTC month across
+ * runs. The counters live in a state store in the repository - a pinned
+ * issue or a repository variable - so a burst of new issues cannot spend
+ * more than the configured limits. Once a limit is reached issues are
+ * triaged with the configured fallback models, or deferred with the
+ * `triage:deferred` label when there are none.
+ */
+
+import * as core from "@actions/core";
+import {
+  ActionContext,
+  BudgetConfig,
+  ModelPrice,
+  ModelUsage,
+  RepoContext,
+  TriageConfig,
+} from "./types";
+import { perform } from "./plan";
+import { estimateCost } from "./usage";
+
+/** Label applied to issues skipped because the budget is spent */
+export const DEFERRED_LABEL = "triage:deferred";
+
+/** Label of the issue holding the budget state */
+const STATE_LABEL = "ai-triage:state";
+
+const STATE_ISSUE_TITLE = "AI Triage budget";
+
+/** Repository variable holding the budget state */
+const STATE_VARIABLE = "AI_TRIAGE_BUDGET";
+
+const STATE_MARKER = /<!-- ai-triage:budget (\{.*?\}) -->/;
+
+/**
+ * Where the budget state is kept
+ * - issue: a pinned issue (needs `issues: write`)
+ * - variable: a repository variable (needs a token that can write variables)
+ */
+export type BudgetStore = "issue" | "variable";
+
+/**
+ * Whether an issue is triaged normally, with the fallback models, or not at all
+ */
+export type BudgetStatus = "ok" | "degraded" | "deferred";
+
+/**
+ * Spending counters for the current day and month
+ */
+interface BudgetState {
+  /** UTC day the call count belongs to (YYYY-MM-DD) */
+  day: string;
+  calls: number;
+
+  /** UTC month the cost belongs to (YYYY-MM) */
+  month: string;
+  cost: number;
+}
+
+/**
+ * Budget limits and spending, loaded once per run
+ *
+ * Spending in this run is kept separately so it can be added to the stored
+ * counters on save, even if another run updated them meanwhile.
+ */
+export interface Budget {
+  config: BudgetConfig;
+  prices: Record<string, ModelPrice>;
+  store: BudgetStore;
+  state: BudgetState;
+
+  /** Calls and cost of this run, not yet saved */
+  spent: { calls: number; cost: number };
+
+  /** Number of the issue holding the state, once found or created */
+  stateIssue?: number;
+
+  /** A model called in this run that has no price, under a cost limit */
+  unpriced?: string;
+}
+
+/**
+ * Load the budget state, or return undefined when no limit needs it
+ */
+export async function loadBudget(
+  ctx: RepoContext,
+  config: TriageConfig,
+  store: BudgetStore,
+): Promise<Budget | undefined> {
+  const limits = config.budget;
+  if (limits.max_calls_per_day <= 0 && limits.max_cost_per_month <= 0) {
+    return undefined;
+  }
+
+  const budget: Budget = {
+    config: limits,
+    prices: config.prices,
+    store,
+    state: emptyState(),
+    spent: { calls: 0, cost: 0 },
+  };
+  budget.state = rollOver(await readState(ctx, budget));
+
+  core.info(
+    `Budget: ${budget.state.calls} model call(s) today, ~$${budget.state.cost.toFixed(2)} this month`,
+  );
+  return budget;
+}
+
+/**
+ * Models to triage the next issue with
+ *
+ * Returns the configured models while the budget lasts, then the fallback
+ * models; no models means the issue should be deferred.
+ */
+export function budgetModels(
+  budget: Budget | undefined,
+  models: string[],
+): { status: BudgetStatus; models: string[] } {
+  const exceeded = budget && exceededLimit(budget);
+  if (!exceeded) {
+    return { status: "ok", models };
+  }
+
+  // Spending the cost limit cannot count is not left to other models either
+  if (budget.unpriced) {
+    core.warning(`Budget cannot be enforced (${exceeded}), deferring triage`);
+    return { status: "deferred", models: [] };
+  }
+
+  if (budget.config.fallback_models.length > 0) {
+    core.warning(
+      `Budget limit reached (${exceeded}), using fallback model(s): ${budget.config.fallback_models.join(", ")}`,
+    );
+    return { status: "degraded", models: budget.config.fallback_models };
+  }
+
+  core.warning(`Budget limit reached (${exceeded}), deferring triage`);
+  return { status: "deferred", models: [] };
+}
+
+/**
+ * Count a model call against the budget
+ *
+ * A call without a known price cannot be counted against a cost limit, so
+ * the remaining issues of the run are deferred.
+ */
+export function recordBudgetUsage(
+  budget: Budget | undefined,
+  usage: ModelUsage,
+): void {
+  if (!budget) {
+    return;
+  }
+  let cost = estimateCost(usage, budget.prices);
+  if (cost === null) {
+    if (budget.config.max_cost_per_month > 0 && !budget.unpriced) {
+      core.warning(
+        `No price for model ${usage.model}; add it to \`prices\` in the repository config to enforce max_cost_per_month`,
+      );
+      budget.unpriced = usage.model;
+    }
+    cost = 0;
+  }
+  budget.state = rollOver(budget.state);
+  budget.state.calls++;
+  budget.state.cost += cost;
+  budget.spent.calls++;
+  budget.spent.cost += cost;
+}
+
+/**
+ * Add this run's spending to the stored budget state
+ *
+ * Failures are logged; they do not fail the run.
+ */
+export async function saveBudget(
+  ctx: RepoContext,
+  budget: Budget | undefined,
+  dryRun: boolean,
+): Promise<void> {
+  if (!budget || budget.spent.calls === 0) {
+    return;
+  }
+  if (dryRun) {
+    core.info(
+      `[dry-run] Add ${budget.spent.calls} call(s) to the budget state`,
+    );
+    return;
+  }
+
+  try {
+    // Re-read so runs that finished meanwhile are not overwritten
+    const state = rollOver(await readState(ctx, budget));
+    state.calls += budget.spent.calls;
+    state.cost += budget.spent.cost;
+    await writeState(ctx, budget, state);
+
+    budget.state = state;
+    budget.spent = { calls: 0, cost: 0 };
+    core.info(
+      `Budget updated: ${state.calls} model call(s) today, ~$${state.cost.toFixed(2)} this month`,
+    );
+  } catch (error) {
+    core.warning(`Failed to save budget state: ${error}`);
+  }
+}
+
+/**
+ * Mark an issue as deferred until the budget allows triaging it
+ *
+ * `needs-triage` is added (or kept) so the default batch query picks the
+ * issue up again, also when it was triaged from an `opened` event. Both
+ * labels are removed once the issue is triaged.
+ */
+export async function deferIssue(ctx: ActionContext): Promise<void> {
+  const labels = [DEFERRED_LABEL, "needs-triage"];
+  await perform(
+    ctx,
+    {
+      type: "add-labels",
+      target: `#${ctx.issueNumber}`,
+      description: `Add labels: ${labels.join(", ")}`,
+      details: { labels },
+    },
+    () =>
+      ctx.octokit.rest.issues.addLabels({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        issue_number: ctx.issueNumber,
+        labels,
+      }),
+    undefined,
+  );
+  core.info(`⏸️ Deferred triage of #${ctx.issueNumber}`);
+}
+
+/**
+ * Describe the first limit that has been reached, if any
+ */
+function exceededLimit(budget: Budget): string | undefined {
+  const { config } = budget;
+  const state = rollOver(budget.state);
+
+  if (budget.unpriced) {
+    return `no price for ${budget.unpriced}`;
+  }
+  if (config.max_calls_per_day > 0 && state.calls >= config.max_calls_per_day) {
+    return `${state.calls} of ${config.max_calls_per_day} model calls today`;
+  }
+  if (
+    config.max_cost_per_month > 0 &&
+    state.cost >= config.max_cost_per_month
+  ) {
+    return `~$${state.cost.toFixed(2)} of $${config.max_cost_per_month} this month`;
+  }
+  return undefined;
+}
+
+async function readState(
+  ctx: RepoContext,
+  budget: Budget,
+): Promise<BudgetState> {
+  const text =
+    budget.store === "variable"
+      ? await readVariable(ctx)
+      : await readStateIssue(ctx, budget);
+
+  if (!text) {
+    return emptyState();
+  }
+  try {
+    return { ...emptyState(), ...JSON.parse(text) };
+  } catch {
+    core.warning("Budget state is not valid JSON, starting from zero");
+    return emptyState();
+  }
+}
+
+async function writeState(
+  ctx: RepoContext,
+  budget: Budget,
+  state: BudgetState,
+): Promise<void> {
+  const value = JSON.stringify({
+    ...state,
+    cost: Math.round(state.cost * 1_000_000) / 1_000_000,
+  });
+
+  if (budget.store === "variable") {
+    await writeVariable(ctx, value);
+  } else {
+    await writeStateIssue(ctx, budget, value, state);
+  }
+}
+
+async function readVariable(ctx: RepoContext): Promise<string | undefined> {
+  try {
+    const { data } = await ctx.octokit.rest.actions.getRepoVariable({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      name: STATE_VARIABLE,
+    });
+    return data.value;
+  } catch (error: any) {
+    if (error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeVariable(ctx: RepoContext, value: string): Promise<void> {
+  try {
+    await ctx.octokit.rest.actions.updateRepoVariable({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      name: STATE_VARIABLE,
+      value,
+    });
+  } catch (error: any) {
+    if (error.status !== 404) {
+      throw error;
+    }
+    await ctx.octokit.rest.actions.createRepoVariable({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      name: STATE_VARIABLE,
+      value,
+    });
+  }
+}
+
+async function readStateIssue(
+  ctx: RepoContext,
+  budget: Budget,
+): Promise<string | undefined> {
+  const { data } = await ctx.octokit.rest.issues.listForRepo({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    labels: STATE_LABEL,
+    state: "all",
+    per_page: 1,
+  });
+  if (data.length === 0) {
+    return undefined;
+  }
+
+  budget.stateIssue = data[0].number;
+  return data[0].body?.match(STATE_MARKER)?.[1];
+}
+
+async function writeStateIssue(
+  ctx: RepoContext,
+  budget: Budget,
+  value: string,
+  state: BudgetState,
+): Promise<void> {
+  const { max_calls_per_day, max_cost_per_month } = budget.config;
+  const limit = (max: number, text: string): string =>
+    max > 0 ? text : "no limit";
+  const body =
+    `This issue stores the spending of the AI Triage action. ` +
+    `Keep it open and do not edit the hidden state below.\n\n` +
+    `| Period | Used | Limit |\n|---|---|---|\n` +
+    `| ${state.day} | ${state.calls} model call(s) | ${limit(max_calls_per_day, `${max_calls_per_day} calls`)} |\n` +
+    `| ${state.month} | ~$${state.cost.toFixed(2)} | ${limit(max_cost_per_month, `$${max_cost_per_month}`)} |\n\n` +
+    `<!-- ai-triage:budget ${value} -->`;
+
+  if (budget.stateIssue) {
+    await ctx.octokit.rest.issues.update({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: budget.stateIssue,
+      body,
+    });
+    return;
+  }
+
+  const { data: issue } = await ctx.octokit.rest.issues.create({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    title: STATE_ISSUE_TITLE,
+    body,
+    labels: [STATE_LABEL],
+  });
+  budget.stateIssue = issue.number;
+  core.info(`Created budget state issue #${issue.number}`);
+
+  try {
+    await ctx.octokit.graphql(
+      `mutation($issueId: ID!) {
+        pinIssue(input: { issueId: $issueId }) { issue { number } }
+      }`,
+      { issueId: issue.node_id },
+    );
+  } catch (error) {
+    core.warning(`Failed to pin budget state issue: ${error}`);
+  }
+}
+
+/**
+ * Reset the counters of a day or month that has passed
+ */
+function rollOver(state: BudgetState): BudgetState {
+  const now = emptyState();
+  return {
+    day: now.day,
+    calls: state.day === now.day ? state.calls : 0,
+    month: now.month,
+    cost: state.month === now.month ? state.cost : 0,
+  };
+}
+
+function emptyState(): BudgetState {
+  const today = new Date().toISOString().slice(0, 10);
+  return { day: today, calls: 0, month: today.slice(0, 7), cost: 0 };
+}
@@ -0,0 +1,203 @@
+/**
+ * Lenient coercion of near-miss AI responses
+ *
+ * Models frequently return analyses that are almost right: "High" instead
+ * of "P1", "medium" instead of "M", a missing empty array. These are fixed
+ * up here so a trivially wrong response does not cost a repair round.
+ */
+
+import { Priority, Size } from "./types";
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  p0: "P0",
+  critical: "P0",
+  urgent: "P0",
+  blocker: "P0",
+  highest: "P0",
+  p1: "P1",
+  high: "P1",
+  important: "P1",
+  p2: "P2",
+  medium: "P2",
+  normal: "P2",
+  low: "P2",
+  lowest: "P2",
+};
+
+const SIZE_ALIASES: Record<string, Size> = {
+  xs: "XS",
+  "extra-small": "XS",
+  tiny: "XS",
+  s: "S",
+  small: "S",
+  m: "M",
+  medium: "M",
+  l: "L",
+  large: "L",
+  xl: "XL",
+  "extra-large": "XL",
+  huge: "XL",
+};
+
+const ARRAY_FIELDS = [
+  "labels",
+  "related_issues",
+  "clarifying_questions",
+  "subtasks_to_create",
+  "subtask_feedback",
+];
+
+const NULLABLE_FIELDS = [
+  "duplicate_of",
+  "suggested_assignee",
+  "enhanced_description",
+  "overall_subtask_feedback",
+];
+
+/**
+ * Return a coerced copy of a parsed AI response
+ *
+ * Only unambiguous fixes are applied; anything else is left for validation
+ * to reject.
+ */
+export function coerceAnalysis(raw: any): any {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return raw;
+  }
+
+  const analysis = { ...raw };
+
+  for (const field of ARRAY_FIELDS) {
+    if (analysis[field] === undefined || analysis[field] === null) {
+      analysis[field] = [];
+    }
+  }
+
+  for (const field of NULLABLE_FIELDS) {
+    if (analysis[field] === undefined || analysis[field] === "") {
+      analysis[field] = null;
+    }
+  }
+
+  analysis.is_agent_ready = coerceBoolean(analysis.is_agent_ready);
+  analysis.needs_subtasks = coerceBoolean(analysis.needs_subtasks);
+  analysis.priority = coercePriority(analysis.priority);
+  analysis.size = coerceSize(analysis.size);
+  analysis.related_issues = coerceIssueNumbers(analysis.related_issues);
+  if (analysis.duplicate_of !== null) {
+    analysis.duplicate_of = coerceIssueNumber(analysis.duplicate_of);
+  }
+
+  if (analysis.needs_subtasks === undefined) {
+    analysis.needs_subtasks =
+      Array.isArray(analysis.subtasks_to_create) &&
+      analysis.subtasks_to_create.length > 0;
+  }
+
+  if (Array.isArray(analysis.subtasks_to_create)) {
+    analysis.subtasks_to_create = analysis.subtasks_to_create.map(
+      (subtask: any, i: number) =>
+        typeof subtask === "object" && subtask !== null
+          ? {
+              ...subtask,
+              id: coerceSubtaskId(subtask.id, i),
+              blocked_by: coerceDependencies(subtask.blocked_by ?? []),
+              labels: subtask.labels ?? [],
+              priority: coercePriority(subtask.priority),
+              size: coerceSize(subtask.size),
+            }
+          : subtask,
+    );
+  }
+
+  if (Array.isArray(analysis.subtask_feedback)) {
+    analysis.subtask_feedback = analysis.subtask_feedback.map((item: any) =>
+      typeof item === "object" && item !== null
+        ? {
+            ...item,
+            issue_number: coerceIssueNumber(item.issue_number),
+            is_ready: coerceBoolean(item.is_ready),
+            suggested_improvements: item.suggested_improvements ?? [],
+          }
+        : item,
+    );
+  }
+
+  return analysis;
+}
+
+function coercePriority(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  return PRIORITY_ALIASES[normalizeKey(value)] ?? value;
+}
+
+function coerceSize(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  return SIZE_ALIASES[normalizeKey(value)] ?? value;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "true" || normalized === "yes") {
+      return true;
+    }
+    if (normalized === "false" || normalized === "no") {
+      return false;
+    }
+  }
+  return value;
+}
+
+function coerceIssueNumbers(value: unknown): unknown {
+  return Array.isArray(value) ? value.map(coerceIssueNumber) : value;
+}
+
+/**
+ * Default a missing subtask id to its position, "1" being the first
+ */
+function coerceSubtaskId(value: unknown, index: number): unknown {
+  if (value === undefined || value === null || value === "") {
+    return String(index + 1);
+  }
+  return typeof value === "number" ? String(value) : value;
+}
+
+/**
+ * Turn numbers in blocked_by into strings (sibling positions)
+ */
+function coerceDependencies(value: unknown): unknown {
+  return Array.isArray(value)
+    ? value.map((ref) =>
+        typeof ref === "number"
+          ? String(ref)
+          : typeof ref === "string"
+            ? ref.trim()
+            : ref,
+      )
+    : value;
+}
+
+/**
+ * Turn "#12" or "12" into 12
+ */
+function coerceIssueNumber(value: unknown): unknown {
+  if (typeof value === "string") {
+    const match = value.trim().match(/^#?(\d+)$/);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+  }
+  return value;
+}
+
+function normalizeKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-");
+}
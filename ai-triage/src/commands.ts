@@ -0,0 +1,292 @@
+/**
+ * ChatOps: /triage commands posted in issue comments
+ *
+ * Maintainers correct a triage by commenting on the issue, e.g.
+ * `/triage priority P0`. Priority, size and readiness set this way are
+ * overrides: they are kept in the hidden state of the command's reply and
+ * applied on top of every later automatic triage until `/triage clear`.
+ */
+
+import * as core from "@actions/core";
+import { findLatestState, upsertComment, CommentState } from "./comments";
+import { PERMISSION_LEVELS, PRIORITIES, SIZES } from "./config";
+import {
+  ActionContext,
+  PermissionLevel,
+  Priority,
+  Size,
+  TriageAnalysis,
+  TriageOverrides,
+} from "./types";
+
+const COMMAND = "/triage";
+
+/**
+ * Subcommands
+ * - rerun: triage the issue again (also a bare `/triage`)
+ * - priority, size, ready: override a triage value
+ * - split: triage again, asking for subtasks
+ * - explain: analyze without changing anything and reply with the reasoning
+ * - clear: drop every override
+ */
+export type CommandName =
+  | "rerun"
+  | "priority"
+  | "size"
+  | "ready"
+  | "split"
+  | "explain"
+  | "clear";
+
+/**
+ * A /triage command and the comment it came from
+ */
+export interface TriageCommand {
+  name: CommandName;
+
+  /** Priority or size for the priority and size commands */
+  value?: string;
+
+  /** Why the command could not be parsed, replied to instead of running it */
+  error?: string;
+
+  commentId: number;
+  author: string;
+}
+
+/** Shown when a command is not understood */
+export const COMMAND_USAGE = [
+  "**Commands:**",
+  "- `/triage rerun` - triage this issue again",
+  `- \`/triage priority <${PRIORITIES.join("|")}>\` - set the priority`,
+  `- \`/triage size <${SIZES.join("|")}>\` - set the size`,
+  "- `/triage ready` - mark the issue agent-ready",
+  "- `/triage split` - triage again and break the issue into subtasks",
+  "- `/triage explain` - explain the triage without changing anything",
+  "- `/triage clear` - drop the manual overrides",
+].join("\n");
+
+/** Request added to the prompt for `/triage split` */
+export const SPLIT_INSTRUCTIONS =
+  "Break this issue into subtasks: set needs_subtasks to true and list the subtasks to create in subtasks_to_create.";
+
+/**
+ * The fields of an issue comment a command is read from
+ */
+export interface CommandComment {
+  id: number;
+  body?: string;
+  user?: { login: string } | null;
+}
+
+/**
+ * Parse the /triage command on the first line of a comment
+ *
+ * Returns undefined when the comment is not a /triage command.
+ */
+export function parseCommand(
+  comment: CommandComment,
+): TriageCommand | undefined {
+  const [word, subcommand, value, ...extra] = (comment.body ?? "")
+    .trim()
+    .split("\n")[0]
+    .trim()
+    .split(/\s+/);
+  if (word !== COMMAND) {
+    return undefined;
+  }
+
+  const command: TriageCommand = {
+    name: (subcommand?.toLowerCase() || "rerun") as CommandName,
+    commentId: comment.id,
+    author: comment.user?.login ?? "",
+  };
+
+  switch (command.name) {
+    case "priority":
+      command.value = value?.toUpperCase();
+      if (!PRIORITIES.includes(command.value as Priority)) {
+        command.error = `Expected a priority (${PRIORITIES.join(", ")}), got \`${value ?? ""}\``;
+      }
+      break;
+    case "size":
+      command.value = value?.toUpperCase();
+      if (!SIZES.includes(command.value as Size)) {
+        command.error = `Expected a size (${SIZES.join(", ")}), got \`${value ?? ""}\``;
+      }
+      break;
+    case "rerun":
+    case "ready":
+    case "split":
+    case "explain":
+    case "clear":
+      if (value) {
+        command.error = `\`${COMMAND} ${command.name}\` takes no arguments`;
+      }
+      return command;
+    default:
+      command.error = `Unknown command \`${COMMAND} ${subcommand}\``;
+      return command;
+  }
+
+  if (!command.error && extra.length > 0) {
+    command.error = `\`${COMMAND} ${command.name}\` takes one argument`;
+  }
+  return command;
+}
+
+/**
+ * Check that the commenter has at least the required repository permission
+ */
+export async function isAuthorized(
+  ctx: ActionContext,
+  username: string,
+  required: PermissionLevel,
+): Promise<boolean> {
+  let level: string;
+  try {
+    const { data } =
+      await ctx.octokit.rest.repos.getCollaboratorPermissionLevel({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        username,
+      });
+    // role_name distinguishes triage and maintain; custom roles fall back
+    // to their base permission
+    level = PERMISSION_LEVELS.includes(data.role_name as PermissionLevel)
+      ? data.role_name
+      : data.permission;
+  } catch (error: any) {
+    if (error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+
+  core.info(`@${username} has ${level} permission (${required} required)`);
+  return (
+    PERMISSION_LEVELS.indexOf(level as PermissionLevel) >=
+    PERMISSION_LEVELS.indexOf(required)
+  );
+}
+
+/**
+ * Load the overrides set by earlier commands on the issue
+ */
+export async function loadOverrides(
+  ctx: ActionContext,
+): Promise<TriageOverrides> {
+  const state = await findLatestState(ctx, ctx.issueNumber, "command");
+  const overrides: TriageOverrides = {};
+  if (PRIORITIES.includes(state?.Priority as Priority)) {
+    overrides.priority = state?.Priority as Priority;
+  }
+  if (SIZES.includes(state?.Size as Size)) {
+    overrides.size = state?.Size as Size;
+  }
+  if (state?.["Agent ready"]) {
+    overrides.is_agent_ready = state["Agent ready"] === "yes";
+  }
+  return overrides;
+}
+
+/**
+ * The overrides after an override command (priority, size, ready, clear)
+ */
+export function overrideWith(
+  overrides: TriageOverrides,
+  command: TriageCommand,
+): TriageOverrides {
+  switch (command.name) {
+    case "priority":
+      return { ...overrides, priority: command.value as Priority };
+    case "size":
+      return { ...overrides, size: command.value as Size };
+    case "ready":
+      return { ...overrides, is_agent_ready: true };
+    case "clear":
+      return {};
+    default:
+      return overrides;
+  }
+}
+
+/**
+ * Put the overridden values into a fresh analysis
+ */
+export function applyOverrides(
+  analysis: TriageAnalysis,
+  overrides: TriageOverrides,
+): void {
+  if (overrides.priority && overrides.priority !== analysis.priority) {
+    core.info(
+      `🎛️ Keeping priority ${overrides.priority} set by a maintainer (triage suggested ${analysis.priority})`,
+    );
+    analysis.priority = overrides.priority;
+  }
+  if (overrides.size && overrides.size !== analysis.size) {
+    core.info(
+      `🎛️ Keeping size ${overrides.size} set by a maintainer (triage suggested ${analysis.size})`,
+    );
+    analysis.size = overrides.size;
+  }
+  if (
+    overrides.is_agent_ready !== undefined &&
+    overrides.is_agent_ready !== analysis.is_agent_ready
+  ) {
+    core.info("🎛️ Keeping the issue agent-ready as set by a maintainer");
+    analysis.is_agent_ready = overrides.is_agent_ready;
+  }
+}
+
+/**
+ * Describe the overrides for a reply
+ */
+export function describeOverrides(overrides: TriageOverrides): string {
+  const entries = Object.entries(overridesState(overrides));
+  return entries.length > 0
+    ? entries.map(([field, value]) => `${field}: ${value}`).join(", ")
+    : "none";
+}
+
+/**
+ * Reply to a command, storing the overrides now in effect with the reply
+ */
+export async function replyToCommand(
+  ctx: ActionContext,
+  command: TriageCommand,
+  message: string,
+  overrides: TriageOverrides,
+): Promise<void> {
+  const quoted =
+    command.name === "rerun" ? COMMAND : `${COMMAND} ${command.name}`;
+  const body =
+    `🎛️ **AI Triage:** \`${command.value ? `${quoted} ${command.value}` : quoted}\` from @${command.author}\n\n` +
+    `${message}\n\n` +
+    `**Manual overrides:** ${describeOverrides(overrides)}`;
+  await upsertComment(
+    ctx,
+    ctx.issueNumber,
+    "command",
+    body,
+    overridesState(overrides),
+    command.commentId,
+  );
+}
+
+/**
+ * Overrides as comment state, using the status comment's field names
+ */
+function overridesState(overrides: TriageOverrides): CommentState {
+  const state: CommentState = {};
+  if (overrides.priority) {
+    state.Priority = overrides.priority;
+  }
+  if (overrides.size) {
+    state.Size = overrides.size;
+  }
+  if (overrides.is_agent_ready !== undefined) {
+    state["Agent ready"] = overrides.is_agent_ready ? "yes" : "no";
+  }
+  return state;
+}
@@ -0,0 +1,358 @@
+/**
+ * Idempotent triage comments
+ *
+ * Every comment the action posts is tagged with a hidden marker naming its
+ * kind. Later runs find the tagged comment and edit it in place instead of
+ * posting another one, noting what changed since the previous triage. The
+ * fields used for that comparison are stored in a second hidden marker.
+ */
+
+import * as core from "@actions/core";
+import { ActionContext } from "./types";
+import { perform, issueRef } from "./plan";
+
+/**
+ * Kinds of comments the action maintains
+ * - status: clarification needed / agent ready, on the triaged issue
+ * - duplicate: link to the issue this one duplicates
+ * - description: enhanced or suggested description notice
+ * - subtasks: list of subtasks created for the issue
+ * - subtask-overview: overall assessment of existing subtasks
+ * - subtask-feedback: feedback on a single subtask, posted on the subtask
+ * - review: why the issue is held for human review
+ * - command: reply to a /triage command, holding the manual overrides
+ */
+export type CommentKind =
+  | "status"
+  | "duplicate"
+  | "description"
+  | "subtasks"
+  | "subtask-overview"
+  | "subtask-feedback"
+  | "review"
+  | "command";
+
+/**
+ * Fields compared between runs to describe what changed, by display name
+ */
+export type CommentState = Record<string, string>;
+
+/** Number of previous versions kept when history is enabled */
+const MAX_HISTORY_ENTRIES = 10;
+
+const HISTORY_START = "<!-- ai-triage:history:start -->";
+const HISTORY_END = "<!-- ai-triage:history:end -->";
+const HISTORY_ENTRY = "<!-- ai-triage:history-entry -->";
+
+/**
+ * Create the comment of the given kind, or update it if a previous run
+ * already posted one
+ *
+ * `scope` distinguishes comments of the same kind on one issue that belong
+ * to different parents (e.g. feedback from two parent issues on a subtask).
+ */
+export async function upsertComment(
+  ctx: ActionContext,
+  issueNumber: number,
+  kind: CommentKind,
+  body: string,
+  state: CommentState = {},
+  scope: number = ctx.issueNumber,
+): Promise<void> {
+  const marker = commentMarker(kind, scope);
+  const existing =
+    issueNumber > 0 ? await findComment(ctx, issueNumber, marker) : undefined;
+
+  if (!existing) {
+    const fullBody = `${marker}\n${stateMarker(state)}\n${body}`;
+    await perform(
+      ctx,
+      {
+        type: "create-comment",
+        target: issueRef(issueNumber),
+        description: `Comment (${kind}): ${body.split("\n")[0]}`,
+        details: { body: fullBody },
+      },
+      () =>
+        ctx.octokit.rest.issues.createComment({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          issue_number: issueNumber,
+          body: fullBody,
+        }),
+      undefined,
+    );
+    return;
+  }
+
+  const previousBody = existing.body || "";
+  const changes = describeChanges(parseState(previousBody), state);
+  let fullBody = `${marker}\n${stateMarker(state)}\n${changes}\n\n${body}`;
+
+  if (ctx.keepCommentHistory) {
+    fullBody += `\n\n${buildHistory(previousBody, existing.updated_at)}`;
+  }
+
+  await perform(
+    ctx,
+    {
+      type: "update-comment",
+      target: issueRef(issueNumber),
+      description: `Update comment (${kind}): ${body.split("\n")[0]}`,
+      details: { comment_id: existing.id, body: fullBody },
+    },
+    () =>
+      ctx.octokit.rest.issues.updateComment({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        comment_id: existing.id,
+        body: fullBody,
+      }),
+    undefined,
+  );
+  core.info(`Updated existing ${kind} comment on ${issueRef(issueNumber)}`);
+}
+
+/**
+ * Rewrite a comment this run already created or updated with upsertComment,
+ * e.g. to report progress, without describing it as another re-triage
+ *
+ * The change note and history written by upsertComment are kept.
+ */
+export async function refreshComment(
+  ctx: ActionContext,
+  issueNumber: number,
+  kind: CommentKind,
+  body: string,
+  state: CommentState = {},
+  scope: number = ctx.issueNumber,
+): Promise<void> {
+  const marker = commentMarker(kind, scope);
+  const existing =
+    issueNumber > 0 ? await findComment(ctx, issueNumber, marker) : undefined;
+  if (!existing) {
+    await upsertComment(ctx, issueNumber, kind, body, state, scope);
+    return;
+  }
+
+  // The change note follows the two markers
+  const previousBody = existing.body || "";
+  const note = previousBody.split("\n")[2] ?? "";
+  const historyStart = previousBody.indexOf(HISTORY_START);
+  let fullBody = `${marker}\n${stateMarker(state)}\n`;
+  if (note.startsWith("> 🔄")) {
+    fullBody += `${note}\n\n`;
+  }
+  fullBody += body;
+  if (historyStart !== -1) {
+    fullBody += `\n\n${previousBody.slice(historyStart)}`;
+  }
+
+  await perform(
+    ctx,
+    {
+      type: "update-comment",
+      target: issueRef(issueNumber),
+      description: `Update comment (${kind}): ${body.split("\n")[0]}`,
+      details: { comment_id: existing.id, body: fullBody },
+    },
+    () =>
+      ctx.octokit.rest.issues.updateComment({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        comment_id: existing.id,
+        body: fullBody,
+      }),
+    undefined,
+  );
+}
+
+/**
+ * Read the body of the comment of the given kind, if one was posted
+ */
+export async function findCommentBody(
+  ctx: ActionContext,
+  issueNumber: number,
+  kind: CommentKind,
+  scope: number = ctx.issueNumber,
+): Promise<string | undefined> {
+  const comment = await findComment(
+    ctx,
+    issueNumber,
+    commentMarker(kind, scope),
+  );
+  return comment?.body;
+}
+
+/**
+ * Read the state of the most recent comment of the given kind, whatever its
+ * scope (e.g. the replies to every /triage command on the issue)
+ *
+ * Returns undefined when there is no such comment.
+ */
+export async function findLatestState(
+  ctx: ActionContext,
+  issueNumber: number,
+  kind: CommentKind,
+): Promise<CommentState | undefined> {
+  const comments = await listActionComments(ctx, issueNumber);
+
+  const prefix = `<!-- ai-triage:comment:${kind}:`;
+  const latest = comments.filter((c) => c.body?.includes(prefix)).pop();
+  return latest ? parseState(latest.body || "") : undefined;
+}
+
+/**
+ * Find a previously posted comment carrying the given marker
+ *
+ * Only the action's own comments are considered, so a forged comment is
+ * neither trusted (e.g. a subtask manifest) nor edited.
+ */
+async function findComment(
+  ctx: ActionContext,
+  issueNumber: number,
+  marker: string,
+): Promise<{ id: number; body?: string; updated_at: string } | undefined> {
+  const comments = await listActionComments(ctx, issueNumber);
+  return comments.find((comment) => comment.body?.includes(marker));
+}
+
+/** Fallback author of the action's comments: the workflow token's bot */
+const WORKFLOW_BOT = "github-actions[bot]";
+
+/** Login of each client's token, looked up once */
+const tokenLogins = new WeakMap<object, Promise<string>>();
+
+/**
+ * List the comments on an issue that the action wrote
+ *
+ * Anyone can paste a hidden marker into a comment, so markers and state are
+ * only read from comments by the user (or bot) the token belongs to.
+ */
+async function listActionComments(ctx: ActionContext, issueNumber: number) {
+  const login = await tokenLogin(ctx);
+  const comments = await ctx.octokit.paginate(
+    ctx.octokit.rest.issues.listComments,
+    {
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: issueNumber,
+      per_page: 100,
+    },
+  );
+  // Apps are named without the "[bot]" suffix their comments carry
+  return comments.filter(
+    (comment) =>
+      comment.user?.login === login || comment.user?.login === `${login}[bot]`,
+  );
+}
+
+/**
+ * Login of the token the action runs with, e.g. a PAT's user
+ */
+async function tokenLogin(ctx: ActionContext): Promise<string> {
+  let login = tokenLogins.get(ctx.octokit);
+  if (!login) {
+    login = (async () => {
+      try {
+        const result: any = await ctx.octokit.graphql(
+          "query { viewer { login } }",
+        );
+        core.debug(`Action comments are written by ${result.viewer.login}`);
+        return result.viewer.login as string;
+      } catch (error) {
+        core.warning(
+          `Could not look up the token's user, assuming ${WORKFLOW_BOT}: ${error}`,
+        );
+        return WORKFLOW_BOT;
+      }
+    })();
+    tokenLogins.set(ctx.octokit, login);
+  }
+  return login;
+}
+
+function commentMarker(kind: CommentKind, scope: number): string {
+  return `<!-- ai-triage:comment:${kind}:${scope} -->`;
+}
+
+/**
+ * Encode state in a hidden marker (base64 so it cannot close the comment)
+ */
+function stateMarker(state: CommentState): string {
+  const encoded = Buffer.from(JSON.stringify(state)).toString("base64");
+  return `<!-- ai-triage:state:${encoded} -->`;
+}
+
+function parseState(body: string): CommentState {
+  const match = body.match(/<!-- ai-triage:state:([A-Za-z0-9+/=]*) -->/);
+  if (!match) {
+    return {};
+  }
+  try {
+    return JSON.parse(Buffer.from(match[1], "base64").toString("utf8"));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Summarize which tracked fields changed since the previous run
+ */
+function describeChanges(
+  previous: CommentState,
+  current: CommentState,
+): string {
+  const changes = Object.keys(current)
+    .filter((field) => field in previous && previous[field] !== current[field])
+    .map(
+      (field) =>
+        `**${field}:** ${previous[field] || "none"} → ${current[field] || "none"}`,
+    );
+
+  if (changes.length === 0) {
+    return "> 🔄 _Re-triaged: no changes since last triage._";
+  }
+  return `> 🔄 _Re-triaged. Changed since last triage:_ ${changes.join("; ")}`;
+}
+
+/**
+ * Build the collapsible history block from the comment being replaced
+ */
+function buildHistory(previousBody: string, previousDate: string): string {
+  const historyStart = previousBody.indexOf(HISTORY_START);
+  const historyEnd = previousBody.indexOf(HISTORY_END);
+
+  let entries: string[] = [];
+  let visible = previousBody;
+  if (historyStart !== -1 && historyEnd !== -1) {
+    entries = previousBody
+      .slice(historyStart + HISTORY_START.length, historyEnd)
+      .split(HISTORY_ENTRY)
+      .slice(1)
+      .map((entry) =>
+        entry
+          .replace(/<\/details>\s*$/, "")
+          .trim()
+          .replace(/\n*---$/, "")
+          .trim(),
+      );
+    visible = previousBody.slice(0, historyStart);
+  }
+
+  // Drop hidden markers and the change note from the previous version
+  visible = visible
+    .replace(/<!-- ai-triage:[^>]*-->\n?/g, "")
+    .replace(/^> 🔄 .*\n*/, "")
+    .trim();
+
+  entries = [`#### ${previousDate}\n\n${visible}`, ...entries].slice(
+    0,
+    MAX_HISTORY_ENTRIES,
+  );
+
+  const content = entries
+    .map((entry) => `${HISTORY_ENTRY}\n${entry}`)
+    .join("\n\n---\n\n");
+  return `${HISTORY_START}\n<details>\n<summary>Previous triage results (${entries.length})</summary>\n\n${content}\n\n</details>\n${HISTORY_END}`;
+}
@@ -0,0 +1,654 @@
+/**
+ * Repository-level triage configuration
+ *
+ * Loads `.github/ai-triage.yml` (or the path given by the `config-path`
+ * input) from the repository's default branch, validates it and merges it
+ * over the built-in defaults.
+ */
+
+import * as core from "@actions/core";
+import { parse } from "yaml";
+import {
+  LabelDefinition,
+  PermissionLevel,
+  Priority,
+  RepoContext,
+  Size,
+  TriageConfig,
+  TriggerRule,
+} from "./types";
+
+export const DEFAULT_CONFIG_PATH = ".github/ai-triage.yml";
+
+export const PRIORITIES: Priority[] = ["P0", "P1", "P2"];
+export const SIZES: Size[] = ["XS", "S", "M", "L", "XL"];
+export const PERMISSION_LEVELS: PermissionLevel[] = [
+  "read",
+  "triage",
+  "write",
+  "maintain",
+  "admin",
+];
+const HEX_COLOR = /^#?[0-9a-fA-F]{6}$/;
+
+/**
+ * Defaults used when the repository has no config file
+ */
+export const DEFAULT_CONFIG: TriageConfig = {
+  project: {
+    name: "PlanGEN",
+    description:
+      "a Python framework for solving complex problems using LLMs in a multi-agent approach",
+  },
+  labels: {
+    types: [
+      {
+        name: "bug",
+        description: "Something isn't working",
+        color: "d73a4a",
+        aliases: ["defect"],
+      },
+      {
+        name: "feature",
+        description: "New feature or request",
+        color: "a2eeef",
+        aliases: ["enhancement", "feature-request"],
+      },
+      {
+        name: "refactor",
+        description: "Code refactoring",
+        color: "fbca04",
+        aliases: ["refactoring", "cleanup"],
+      },
+      {
+        name: "chore",
+        description: "Maintenance tasks",
+        color: "fef2c0",
+        aliases: ["maintenance"],
+      },
+    ],
+    scopes: [
+      { name: "api-design", description: "", aliases: ["api"] },
+      { name: "infrastructure", description: "", aliases: ["infra", "ci"] },
+      { name: "documentation", description: "", aliases: ["docs"] },
+      { name: "visualization", description: "", aliases: ["ui", "viz"] },
+      { name: "testing", description: "", aliases: ["tests"] },
+      { name: "performance", description: "", aliases: ["perf"] },
+      { name: "architecture", description: "", aliases: [] },
+      { name: "security", description: "", aliases: [] },
+      { name: "packaging", description: "", aliases: ["build"] },
+    ],
+  },
+  priorities: {
+    P0: "Critical bugs, security issues, blocking issues",
+    P1: "Important features, significant bugs",
+    P2: "Nice-to-have features, minor improvements",
+  },
+  sizes: {
+    XS: "< 1 hour (typo fixes, documentation updates)",
+    S: "1-4 hours (small features, simple bug fixes)",
+    M: "1-2 days (medium features, complex bug fixes)",
+    L: "3-5 days (large features, architectural changes)",
+    XL: "1+ weeks (major features, significant refactoring)",
+  },
+  agent_ready_criteria: [
+    "Clear acceptance criteria",
+    "Specific technical details",
+    "Well-defined scope",
+    "No ambiguous requirements",
+  ],
+  prices: {},
+  budget: {
+    max_calls_per_day: 0,
+    max_cost_per_month: 0,
+    max_tokens_per_issue: 0,
+    fallback_models: [],
+  },
+  policy: {
+    restricted_labels: ["security", "P0"],
+    max_subtasks: 10,
+    allow_mentions: false,
+  },
+  redaction: {
+    enabled: true,
+    patterns: [],
+  },
+  triggers: [
+    trigger("issue opened", { events: ["issues.opened"] }),
+    trigger("needs-triage label", {
+      events: ["issues.labeled"],
+      labels: ["needs-triage"],
+    }),
+    trigger("triage:backlog label", {
+      events: ["issues.labeled"],
+      labels: ["triage:backlog"],
+    }),
+    trigger("/triage command", {
+      events: ["issue_comment.created"],
+      command: "/triage",
+      author_associations: ["OWNER", "MEMBER", "COLLABORATOR"],
+    }),
+  ],
+  commands: {
+    permission: "triage",
+  },
+};
+
+const KNOWN_KEYS = [
+  "project",
+  "labels",
+  "priorities",
+  "sizes",
+  "agent_ready_criteria",
+  "prices",
+  "budget",
+  "policy",
+  "redaction",
+  "triggers",
+  "commands",
+];
+
+const TRIGGER_KEYS = [
+  "name",
+  "action",
+  "events",
+  "labels",
+  "author_associations",
+  "author_types",
+  "title_pattern",
+  "body_pattern",
+  "templates",
+  "command",
+];
+
+/**
+ * Load the triage config from the repository, falling back to defaults
+ */
+export async function loadTriageConfig(
+  ctx: RepoContext,
+  configPath: string,
+): Promise<TriageConfig> {
+  core.info(`Loading triage config from ${configPath}...`);
+
+  let raw: string;
+  try {
+    const { data } = await ctx.octokit.rest.repos.getContent({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      path: configPath,
+    });
+
+    if (Array.isArray(data) || data.type !== "file" || !("content" in data)) {
+      throw new Error(`Config path ${configPath} is not a file`);
+    }
+
+    raw = Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error: any) {
+    if (error.status === 404) {
+      core.info(`No config file at ${configPath}, using defaults`);
+      return DEFAULT_CONFIG;
+    }
+    throw new Error(`Failed to read ${configPath}: ${error.message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parse(raw);
+  } catch (error: any) {
+    throw new Error(`Failed to parse ${configPath}: ${error.message}`);
+  }
+
+  const config = parseTriageConfig(parsed ?? {});
+  core.info(`✅ Loaded triage config for ${config.project.name}`);
+  return config;
+}
+
+/**
+ * Validate a parsed config document and merge it over the defaults
+ */
+export function parseTriageConfig(raw: unknown): TriageConfig {
+  const errors = validateConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid triage config:\n${errors.map((e) => `- ${e}`).join("\n")}`,
+    );
+  }
+
+  const input = raw as any;
+
+  return {
+    project: { ...DEFAULT_CONFIG.project, ...input.project },
+    labels: {
+      types: input.labels?.types
+        ? normalizeLabels(input.labels.types)
+        : DEFAULT_CONFIG.labels.types,
+      scopes: input.labels?.scopes
+        ? normalizeLabels(input.labels.scopes)
+        : DEFAULT_CONFIG.labels.scopes,
+    },
+    priorities: { ...DEFAULT_CONFIG.priorities, ...input.priorities },
+    sizes: { ...DEFAULT_CONFIG.sizes, ...input.sizes },
+    agent_ready_criteria:
+      input.agent_ready_criteria ?? DEFAULT_CONFIG.agent_ready_criteria,
+    prices: input.prices ?? DEFAULT_CONFIG.prices,
+    budget: { ...DEFAULT_CONFIG.budget, ...input.budget },
+    policy: { ...DEFAULT_CONFIG.policy, ...input.policy },
+    redaction: { ...DEFAULT_CONFIG.redaction, ...input.redaction },
+    triggers: input.triggers
+      ? input.triggers.map((rule: any, i: number) =>
+          trigger(rule.name ?? `trigger ${i + 1}`, rule),
+        )
+      : DEFAULT_CONFIG.triggers,
+    commands: { ...DEFAULT_CONFIG.commands, ...input.commands },
+  };
+}
+
+/**
+ * Check a parsed config document against the config schema
+ *
+ * Returns every problem found rather than stopping at the first one so
+ * users can fix their config in a single pass.
+ */
+function validateConfig(raw: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return ["config must be a mapping"];
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      errors.push(`unknown key "${key}"`);
+    }
+  }
+
+  if (raw.project !== undefined) {
+    if (!isObject(raw.project)) {
+      errors.push("project must be a mapping");
+    } else {
+      for (const key of ["name", "description"]) {
+        const value = raw.project[key];
+        if (value !== undefined && !isNonEmptyString(value)) {
+          errors.push(`project.${key} must be a non-empty string`);
+        }
+      }
+    }
+  }
+
+  if (raw.labels !== undefined) {
+    if (!isObject(raw.labels)) {
+      errors.push("labels must be a mapping");
+    } else {
+      for (const key of ["types", "scopes"]) {
+        const value = raw.labels[key];
+        if (value !== undefined) {
+          errors.push(...validateLabels(`labels.${key}`, value));
+        }
+      }
+    }
+  }
+
+  errors.push(...validateGuidelines("priorities", raw.priorities, PRIORITIES));
+  errors.push(...validateGuidelines("sizes", raw.sizes, SIZES));
+
+  if (raw.agent_ready_criteria !== undefined) {
+    if (
+      !Array.isArray(raw.agent_ready_criteria) ||
+      raw.agent_ready_criteria.length === 0 ||
+      !raw.agent_ready_criteria.every(isNonEmptyString)
+    ) {
+      errors.push("agent_ready_criteria must be a non-empty list of strings");
+    }
+  }
+
+  if (raw.prices !== undefined) {
+    if (!isObject(raw.prices)) {
+      errors.push("prices must be a mapping of model name to prices");
+    } else {
+      for (const [model, price] of Object.entries(raw.prices)) {
+        if (
+          !isObject(price) ||
+          !isNonNegativeNumber(price.input) ||
+          !isNonNegativeNumber(price.output)
+        ) {
+          errors.push(
+            `prices.${model} must have non-negative input and output prices`,
+          );
+        }
+      }
+    }
+  }
+
+  if (raw.budget !== undefined) {
+    errors.push(...validateBudget(raw.budget));
+  }
+
+  if (raw.policy !== undefined) {
+    errors.push(...validatePolicy(raw.policy));
+  }
+
+  if (raw.redaction !== undefined) {
+    errors.push(...validateRedaction(raw.redaction));
+  }
+
+  if (raw.triggers !== undefined) {
+    errors.push(...validateTriggers(raw.triggers));
+  }
+
+  if (raw.commands !== undefined) {
+    errors.push(...validateCommands(raw.commands));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the budget limits
+ */
+function validateBudget(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["budget must be a mapping"];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!(key in DEFAULT_CONFIG.budget)) {
+      errors.push(`unknown key "budget.${key}"`);
+    }
+  }
+  for (const key of [
+    "max_calls_per_day",
+    "max_cost_per_month",
+    "max_tokens_per_issue",
+  ]) {
+    if (value[key] !== undefined && !isNonNegativeNumber(value[key])) {
+      errors.push(`budget.${key} must be a non-negative number`);
+    }
+  }
+  if (
+    value.fallback_models !== undefined &&
+    !(
+      Array.isArray(value.fallback_models) &&
+      value.fallback_models.every(isNonEmptyString)
+    )
+  ) {
+    errors.push("budget.fallback_models must be a list of models");
+  }
+  return errors;
+}
+
+/**
+ * Validate the output policy
+ */
+function validatePolicy(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["policy must be a mapping"];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!(key in DEFAULT_CONFIG.policy)) {
+      errors.push(`unknown key "policy.${key}"`);
+    }
+  }
+  if (
+    value.restricted_labels !== undefined &&
+    !(
+      Array.isArray(value.restricted_labels) &&
+      value.restricted_labels.every(isNonEmptyString)
+    )
+  ) {
+    errors.push("policy.restricted_labels must be a list of labels");
+  }
+  if (
+    value.max_subtasks !== undefined &&
+    !(Number.isInteger(value.max_subtasks) && value.max_subtasks >= 0)
+  ) {
+    errors.push("policy.max_subtasks must be a non-negative integer");
+  }
+  if (
+    value.allow_mentions !== undefined &&
+    typeof value.allow_mentions !== "boolean"
+  ) {
+    errors.push("policy.allow_mentions must be true or false");
+  }
+  return errors;
+}
+
+/**
+ * Validate the redaction settings and compile each pattern
+ */
+function validateRedaction(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["redaction must be a mapping"];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!(key in DEFAULT_CONFIG.redaction)) {
+      errors.push(`unknown key "redaction.${key}"`);
+    }
+  }
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    errors.push("redaction.enabled must be true or false");
+  }
+  if (value.patterns === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(value.patterns)) {
+    return [...errors, "redaction.patterns must be a list"];
+  }
+
+  for (const [i, entry] of value.patterns.entries()) {
+    if (
+      !isObject(entry) ||
+      !isNonEmptyString(entry.name) ||
+      !isNonEmptyString(entry.pattern)
+    ) {
+      errors.push(`redaction.patterns[${i}] must have a name and a pattern`);
+      continue;
+    }
+    try {
+      if (new RegExp(entry.pattern).test("")) {
+        errors.push(`redaction.patterns[${i}].pattern matches empty text`);
+      }
+    } catch (error: any) {
+      errors.push(`redaction.patterns[${i}].pattern: ${error.message}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the trigger rules
+ */
+function validateTriggers(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return ["triggers must be a non-empty list of rules"];
+  }
+
+  const errors: string[] = [];
+  for (const [i, rule] of value.entries()) {
+    const path = `triggers[${i}]`;
+    if (!isObject(rule)) {
+      errors.push(`${path} must be a mapping`);
+      continue;
+    }
+    for (const key of Object.keys(rule)) {
+      if (!TRIGGER_KEYS.includes(key)) {
+        errors.push(`unknown key "${path}.${key}"`);
+      }
+    }
+    if (rule.name !== undefined && !isNonEmptyString(rule.name)) {
+      errors.push(`${path}.name must be a non-empty string`);
+    }
+    if (rule.action !== undefined && !["run", "skip"].includes(rule.action)) {
+      errors.push(`${path}.action must be run or skip`);
+    }
+    for (const key of [
+      "events",
+      "labels",
+      "author_associations",
+      "author_types",
+      "templates",
+    ]) {
+      if (
+        rule[key] !== undefined &&
+        !(Array.isArray(rule[key]) && rule[key].every(isNonEmptyString))
+      ) {
+        errors.push(`${path}.${key} must be a list of strings`);
+      }
+    }
+    for (const key of ["title_pattern", "body_pattern"]) {
+      if (rule[key] === undefined) {
+        continue;
+      }
+      try {
+        new RegExp(rule[key]);
+      } catch (error: any) {
+        errors.push(`${path}.${key}: ${error.message}`);
+      }
+    }
+    if (
+      rule.command !== undefined &&
+      !(isNonEmptyString(rule.command) && rule.command.startsWith("/"))
+    ) {
+      errors.push(`${path}.command must start with "/"`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the /triage command settings
+ */
+function validateCommands(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["commands must be a mapping"];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!(key in DEFAULT_CONFIG.commands)) {
+      errors.push(`unknown key "commands.${key}"`);
+    }
+  }
+  if (
+    value.permission !== undefined &&
+    !PERMISSION_LEVELS.includes(value.permission)
+  ) {
+    errors.push(
+      `commands.permission must be one of ${PERMISSION_LEVELS.join(", ")}`,
+    );
+  }
+  return errors;
+}
+
+/**
+ * Build a trigger rule, filling in the conditions that are not set
+ */
+function trigger(name: string, rule: Partial<TriggerRule>): TriggerRule {
+  return {
+    action: "run",
+    events: [],
+    labels: [],
+    author_associations: [],
+    author_types: [],
+    templates: [],
+    ...rule,
+    name,
+  };
+}
+
+/**
+ * Validate a label list (entries are names or {name, description, ...} mappings)
+ */
+function validateLabels(path: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return [`${path} must be a non-empty list`];
+  }
+
+  const errors: string[] = [];
+  for (const [i, entry] of value.entries()) {
+    if (isNonEmptyString(entry)) {
+      continue;
+    }
+    if (!isObject(entry) || !isNonEmptyString(entry.name)) {
+      errors.push(`${path}[${i}] must be a name or have a non-empty name`);
+    } else {
+      if (
+        entry.description !== undefined &&
+        typeof entry.description !== "string"
+      ) {
+        errors.push(`${path}[${i}].description must be a string`);
+      }
+      if (
+        entry.color !== undefined &&
+        !(typeof entry.color === "string" && HEX_COLOR.test(entry.color))
+      ) {
+        errors.push(`${path}[${i}].color must be a hex color like "d73a4a"`);
+      }
+      if (
+        entry.aliases !== undefined &&
+        !(Array.isArray(entry.aliases) && entry.aliases.every(isNonEmptyString))
+      ) {
+        errors.push(`${path}[${i}].aliases must be a list of strings`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate a priority/size guideline mapping
+ */
+function validateGuidelines(
+  path: string,
+  value: unknown,
+  allowed: string[],
+): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isObject(value)) {
+    return [`${path} must be a mapping`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, guideline] of Object.entries(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}.${key} is not one of ${allowed.join(", ")}`);
+    } else if (!isNonEmptyString(guideline)) {
+      errors.push(`${path}.${key} must be a non-empty string`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Normalize label entries to {name, description, color, aliases} form
+ */
+function normalizeLabels(entries: any[]): LabelDefinition[] {
+  return entries.map((entry) =>
+    typeof entry === "string"
+      ? { name: entry, description: "", aliases: [] }
+      : {
+          name: entry.name,
+          description: entry.description ?? "",
+          color: entry.color?.replace(/^#/, ""),
+          aliases: entry.aliases ?? [],
+        },
+  );
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
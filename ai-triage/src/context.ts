@@ -0,0 +1,370 @@
+/**
+ * Gather the discussion and code around an issue for the triage prompt
+ *
+ * Collects the comment thread (so answers to clarifying questions are seen
+ * on re-triage), pull requests that reference the issue, and excerpts of
+ * repository files mentioned in the issue or its comments. Rendering fits
+ * everything into a token budget, dropping the least useful parts first.
+ */
+
+import * as core from "@actions/core";
+import {
+  ActionContext,
+  FileSnippet,
+  IssueContext,
+  LinkedPullRequest,
+} from "./types";
+import { estimateTokens, truncateToTokens } from "./tokens";
+
+/**
+ * How comments from bots are handled
+ * - summarize: include a one-line summary of each
+ * - exclude: leave them out entirely
+ */
+export type BotCommentMode = "summarize" | "exclude";
+
+/**
+ * What context is gathered
+ */
+export interface ContextOptions {
+  botComments: BotCommentMode;
+}
+
+/** Referenced files fetched per issue */
+const MAX_FILES = 5;
+
+/** Files larger than this are not excerpted */
+const MAX_FILE_BYTES = 200_000;
+
+/** Lines excerpted from a file referenced without a line number */
+const HEAD_LINES = 60;
+
+/** Lines shown around a referenced line or range */
+const CONTEXT_LINES = 10;
+
+/** Length of linked pull request descriptions */
+const PR_BODY_LENGTH = 500;
+
+/** Changed files listed per linked pull request */
+const MAX_PR_FILES = 30;
+
+/** Length of each bot comment summary */
+const BOT_SUMMARY_LENGTH = 200;
+
+/** Length kept of this action's own comments (they hold earlier questions) */
+const TRIAGE_SUMMARY_LENGTH = 1500;
+
+/** Parts smaller than this are dropped rather than truncated */
+const MIN_TRUNCATED_TOKENS = 50;
+
+/**
+ * Gather comments, linked pull requests and referenced files
+ *
+ * Each source is optional: failures are logged and that source is skipped.
+ */
+export async function gatherIssueContext(
+  ctx: ActionContext,
+  options: ContextOptions,
+): Promise<IssueContext> {
+  core.info(`Gathering context for issue #${ctx.issueNumber}...`);
+
+  const context: IssueContext = {
+    comments: [],
+    botComments: [],
+    pullRequests: [],
+    files: [],
+  };
+
+  try {
+    const comments = await ctx.octokit.paginate(
+      ctx.octokit.rest.issues.listComments,
+      {
+        owner: ctx.owner,
+        repo: ctx.repo,
+        issue_number: ctx.issueNumber,
+        per_page: 100,
+      },
+    );
+
+    for (const comment of comments) {
+      const author = comment.user?.login ?? "ghost";
+      const body = comment.body || "";
+      if (comment.user?.type !== "Bot") {
+        context.comments.push({
+          author,
+          body,
+          created_at: comment.created_at,
+        });
+      } else if (options.botComments === "summarize") {
+        context.botComments.push(`@${author}: ${summarizeBotComment(body)}`);
+      }
+    }
+  } catch (error) {
+    core.warning(`Failed to fetch issue comments: ${error}`);
+  }
+
+  try {
+    context.pullRequests = await fetchLinkedPullRequests(ctx);
+  } catch (error) {
+    core.warning(`Failed to fetch linked pull requests: ${error}`);
+  }
+
+  const texts = [ctx.issue.body, ...context.comments.map((c) => c.body)];
+  context.files = await fetchReferencedFiles(ctx, texts.join("\n"));
+
+  core.info(
+    `Context: ${context.comments.length} comment(s), ${context.botComments.length} bot comment(s), ` +
+      `${context.pullRequests.length} linked PR(s), ${context.files.length} file excerpt(s)`,
+  );
+  return context;
+}
+
+/**
+ * Render the context as prompt sections within a token budget
+ *
+ * Parts are admitted in priority order until the budget runs out: the
+ * newest comments first (they usually answer earlier questions), then
+ * linked pull requests, file excerpts and finally bot comment summaries.
+ * The part that crosses the budget is truncated; parts that no longer fit
+ * are dropped.
+ */
+export function renderIssueContext(
+  context: IssueContext,
+  tokenBudget: number,
+): string {
+  let remaining = tokenBudget;
+  const admit = (text: string): string | undefined => {
+    const tokens = estimateTokens(text);
+    if (tokens <= remaining) {
+      remaining -= tokens;
+      return text;
+    }
+    if (remaining >= MIN_TRUNCATED_TOKENS) {
+      const truncated = truncateToTokens(text, remaining);
+      remaining = 0;
+      return truncated;
+    }
+    return undefined;
+  };
+
+  const comments: (string | undefined)[] = [];
+  for (let i = context.comments.length - 1; i >= 0; i--) {
+    const comment = context.comments[i];
+    comments[i] = admit(
+      `@${comment.author} (${comment.created_at}):\n${comment.body}`,
+    );
+  }
+  const pullRequests = context.pullRequests.map((pr) => {
+    const files =
+      pr.files.length > 0 ? `\nChanged files: ${pr.files.join(", ")}` : "";
+    return admit(
+      `#${pr.number} - ${pr.title} [${pr.state}]\n${pr.body}${files}`,
+    );
+  });
+  const files = context.files.map((file) =>
+    admit(
+      `${file.path} (lines ${file.startLine}-${file.endLine}):\n\`\`\`\n${file.content}\n\`\`\``,
+    ),
+  );
+  const botComments = context.botComments.map((summary) => admit(summary));
+
+  return [
+    renderSection("Comments", comments, "\n\n"),
+    renderSection("Linked Pull Requests", pullRequests, "\n\n"),
+    renderSection("Referenced Files", files, "\n\n"),
+    renderSection("Bot Comments", botComments, "\n"),
+  ]
+    .filter((section) => section.length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Pull requests in this repository that cross-reference the issue
+ */
+async function fetchLinkedPullRequests(
+  ctx: ActionContext,
+): Promise<LinkedPullRequest[]> {
+  const events = await ctx.octokit.paginate(
+    ctx.octokit.rest.issues.listEventsForTimeline,
+    {
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: ctx.issueNumber,
+      per_page: 100,
+    },
+  );
+
+  const numbers = new Set<number>();
+  for (const event of events) {
+    const source = (event as any).source?.issue;
+    if (
+      event.event === "cross-referenced" &&
+      source?.pull_request &&
+      source.repository?.full_name === `${ctx.owner}/${ctx.repo}`
+    ) {
+      numbers.add(source.number);
+    }
+  }
+
+  const pullRequests: LinkedPullRequest[] = [];
+  for (const number of numbers) {
+    const { data: pr } = await ctx.octokit.rest.pulls.get({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      pull_number: number,
+    });
+    const { data: files } = await ctx.octokit.rest.pulls.listFiles({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      pull_number: number,
+      per_page: MAX_PR_FILES,
+    });
+
+    pullRequests.push({
+      number,
+      title: pr.title,
+      state: pr.merged ? "merged" : pr.state,
+      body: truncate(pr.body || "", PR_BODY_LENGTH),
+      files: files.map((f) => f.filename),
+    });
+  }
+  return pullRequests;
+}
+
+/**
+ * Excerpts of repository files referenced by path or blob URL
+ *
+ * Files are read from the default branch. References that do not resolve
+ * to a file (most bare paths that only look like one) are skipped.
+ */
+async function fetchReferencedFiles(
+  ctx: ActionContext,
+  text: string,
+): Promise<FileSnippet[]> {
+  const snippets: FileSnippet[] = [];
+
+  for (const ref of findFileReferences(ctx, text).slice(0, MAX_FILES)) {
+    try {
+      const { data } = await ctx.octokit.rest.repos.getContent({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        path: ref.path,
+      });
+      if (
+        Array.isArray(data) ||
+        data.type !== "file" ||
+        !("content" in data) ||
+        data.size > MAX_FILE_BYTES
+      ) {
+        continue;
+      }
+
+      const lines = Buffer.from(data.content, "base64")
+        .toString("utf8")
+        .split("\n");
+      const startLine = ref.startLine
+        ? Math.max(1, ref.startLine - CONTEXT_LINES)
+        : 1;
+      const endLine = ref.startLine
+        ? Math.min(
+            lines.length,
+            (ref.endLine ?? ref.startLine) + CONTEXT_LINES,
+            startLine + HEAD_LINES * 2,
+          )
+        : Math.min(lines.length, HEAD_LINES);
+
+      snippets.push({
+        path: ref.path,
+        startLine,
+        endLine,
+        content: lines.slice(startLine - 1, endLine).join("\n"),
+      });
+    } catch (error: any) {
+      if (error.status !== 404) {
+        core.warning(`Failed to read ${ref.path}: ${error.message}`);
+      }
+    }
+  }
+
+  return snippets;
+}
+
+/**
+ * Find file references: blob URLs for this repository and paths such as
+ * `src/main.ts` or `src/main.ts:42-50`
+ */
+function findFileReferences(
+  ctx: ActionContext,
+  text: string,
+): { path: string; startLine?: number; endLine?: number }[] {
+  const refs = new Map<
+    string,
+    { path: string; startLine?: number; endLine?: number }
+  >();
+  const add = (path: string, start?: string, end?: string): void => {
+    const key = `${path}:${start ?? ""}`;
+    if (!refs.has(key)) {
+      refs.set(key, {
+        path,
+        startLine: start ? parseInt(start, 10) : undefined,
+        endLine: end ? parseInt(end, 10) : undefined,
+      });
+    }
+  };
+
+  const blobUrl = new RegExp(
+    `https://github\\.com/${ctx.owner}/${ctx.repo}/blob/[^/\\s]+/([^\\s#)\\]]+)(?:#L(\\d+)(?:-L(\\d+))?)?`,
+    "g",
+  );
+  for (const match of text.matchAll(blobUrl)) {
+    add(decodeURIComponent(match[1]), match[2], match[3]);
+  }
+
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, "");
+  const path =
+    /(?:^|[\s`("'])((?:[\w.-]+\/)+[\w.-]+\.[A-Za-z0-9]{1,10})(?::(\d+)(?:-(\d+))?)?/g;
+  for (const match of withoutUrls.matchAll(path)) {
+    add(match[1].replace(/^\.\//, ""), match[2], match[3]);
+  }
+
+  return Array.from(refs.values());
+}
+
+/**
+ * Condense a bot comment to a single line
+ *
+ * Hidden markers and the history of updated triage comments are dropped.
+ * Triage comments are kept longer so earlier questions stay visible.
+ */
+function summarizeBotComment(body: string): string {
+  const length = body.includes("<!-- ai-triage:comment:")
+    ? TRIAGE_SUMMARY_LENGTH
+    : BOT_SUMMARY_LENGTH;
+  const text = body
+    .replace(
+      /<!-- ai-triage:history:start -->[\s\S]*<!-- ai-triage:history:end -->/,
+      "",
+    )
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return truncate(text, length);
+}
+
+function renderSection(
+  title: string,
+  parts: (string | undefined)[],
+  separator: string,
+): string {
+  const included = parts.filter((part): part is string => part !== undefined);
+  if (included.length === 0) {
+    return "";
+  }
+  const omitted = parts.length - included.length;
+  const note = omitted > 0 ? `\n\n(${omitted} more omitted)` : "";
+  return `**${title}:**\n${included.join(separator)}${note}`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
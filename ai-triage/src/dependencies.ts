@@ -0,0 +1,137 @@
+/**
+ * Dependencies between the subtasks proposed in one analysis
+ *
+ * New subtasks have no issue numbers yet, so the model refers to sibling
+ * subtasks by their local `id` (or position, "1" being the first) and to
+ * existing issues as "#N". References are checked when the analysis is
+ * validated and resolved to real issue numbers as the subtasks are created,
+ * blockers first.
+ */
+
+import { SubtaskInfo } from "./types";
+
+/**
+ * What a blocked_by entry refers to: a sibling subtask (by index) or an
+ * existing issue
+ */
+export type Dependency = { sibling: number } | { issue: number };
+
+/**
+ * Resolve one blocked_by entry; undefined when it refers to nothing
+ */
+export function resolveDependency(
+  subtasks: Pick<SubtaskInfo, "id">[],
+  ref: string,
+): Dependency | undefined {
+  const issue = ref.match(/^#(\d+)$/);
+  if (issue) {
+    return { issue: parseInt(issue[1], 10) };
+  }
+
+  const sibling = subtasks.findIndex((s) => s.id === ref);
+  if (sibling !== -1) {
+    return { sibling };
+  }
+
+  if (/^\d+$/.test(ref)) {
+    const position = parseInt(ref, 10);
+    if (position >= 1 && position <= subtasks.length) {
+      return { sibling: position - 1 };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the ids and blocked_by entries of proposed subtasks
+ *
+ * Returns every problem found: duplicate ids, entries that refer to
+ * nothing and dependency cycles.
+ */
+export function checkDependencies(
+  subtasks: Pick<SubtaskInfo, "id" | "blocked_by">[],
+): string[] {
+  const errors: string[] = [];
+
+  const seen = new Set<string>();
+  for (const subtask of subtasks) {
+    if (seen.has(subtask.id)) {
+      errors.push(
+        `subtasks_to_create: id "${subtask.id}" is used by more than one subtask`,
+      );
+    }
+    seen.add(subtask.id);
+  }
+
+  for (const [i, subtask] of subtasks.entries()) {
+    for (const ref of subtask.blocked_by) {
+      if (!resolveDependency(subtasks, ref)) {
+        errors.push(
+          `subtasks_to_create[${i}].blocked_by: "${ref}" is neither the id of another new subtask nor an existing issue like "#12"`,
+        );
+      }
+    }
+  }
+
+  const { cycle } = orderSubtasks(subtasks);
+  if (cycle) {
+    errors.push(
+      `subtasks_to_create: dependency cycle ${cycle.map((i) => subtasks[i].id).join(" → ")}`,
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Order subtasks so each comes after the siblings it is blocked by
+ *
+ * Returns the indices in creation order, or the cycle that prevents one.
+ */
+export function orderSubtasks(
+  subtasks: Pick<SubtaskInfo, "id" | "blocked_by">[],
+): { order: number[]; cycle?: number[] } {
+  const blockers = subtasks.map((subtask) =>
+    subtask.blocked_by
+      .map((ref) => resolveDependency(subtasks, ref))
+      .filter(
+        (d): d is { sibling: number } => d !== undefined && "sibling" in d,
+      )
+      .map((d) => d.sibling),
+  );
+
+  // 1 while a subtask's blockers are being visited, 2 once it is ordered
+  const state = new Array<number>(subtasks.length).fill(0);
+  const path: number[] = [];
+  const order: number[] = [];
+
+  const visit = (i: number): number[] | undefined => {
+    if (state[i] === 2) {
+      return undefined;
+    }
+    if (state[i] === 1) {
+      return [...path.slice(path.indexOf(i)), i];
+    }
+
+    state[i] = 1;
+    path.push(i);
+    for (const blocker of blockers[i]) {
+      const cycle = visit(blocker);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state[i] = 2;
+    order.push(i);
+    return undefined;
+  };
+
+  for (let i = 0; i < subtasks.length; i++) {
+    const cycle = visit(i);
+    if (cycle) {
+      return { order, cycle };
+    }
+  }
+  return { order };
+}
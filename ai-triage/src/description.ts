@@ -0,0 +1,90 @@
+/**
+ * Enhanced issue descriptions that keep the author's original text
+ *
+ * The issue body is rebuilt from two marked sections: the author's original
+ * text in a collapsible block, followed by the AI-enhanced description. On
+ * re-triage only the AI section is replaced, and the original is recovered
+ * from its markers rather than wrapped a second time.
+ */
+
+const ORIGINAL_START = "<!-- ai-triage:original:start -->";
+const ORIGINAL_END = "<!-- ai-triage:original:end -->";
+const ENHANCED_START = "<!-- ai-triage:enhanced:start -->";
+const ENHANCED_END = "<!-- ai-triage:enhanced:end -->";
+
+/**
+ * Recover the author's original text from an issue body
+ *
+ * Works on bodies that were never enhanced (the whole body is original)
+ * as well as bodies previously rebuilt by buildEnhancedBody().
+ */
+export function extractOriginalBody(body: string): string {
+  const original = between(body, ORIGINAL_START, ORIGINAL_END);
+  if (original !== null) {
+    return original
+      .replace(/^\s*<details>\s*<summary>[^<]*<\/summary>/, "")
+      .replace(/<\/details>\s*$/, "")
+      .trim();
+  }
+
+  return removeSection(body, ENHANCED_START, ENHANCED_END).trim();
+}
+
+/**
+ * Whether a body already contains an AI-enhanced section
+ */
+export function hasEnhancedSection(body: string): boolean {
+  return body.includes(ENHANCED_START) && body.includes(ENHANCED_END);
+}
+
+/**
+ * Build the issue body: original text collapsed, enhanced description after
+ */
+export function buildEnhancedBody(
+  currentBody: string,
+  enhancedDescription: string,
+  author?: string,
+): string {
+  const original = extractOriginalBody(currentBody);
+  const sections: string[] = [];
+
+  if (original) {
+    const summary = author
+      ? `Original description by @${author}`
+      : "Original description";
+    sections.push(
+      `${ORIGINAL_START}\n<details>\n<summary>${summary}</summary>\n\n${original}\n\n</details>\n${ORIGINAL_END}`,
+    );
+  }
+
+  sections.push(
+    `${ENHANCED_START}\n### 🤖 AI-enhanced description\n\n${enhancedDescription.trim()}\n\n` +
+      `_Generated by AI triage. Edit the original description above; this section is replaced on re-triage._\n${ENHANCED_END}`,
+  );
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Text between two markers, or null when either is missing
+ */
+function between(body: string, start: string, end: string): string | null {
+  const startIndex = body.indexOf(start);
+  const endIndex = body.indexOf(end, startIndex);
+  if (startIndex === -1 || endIndex === -1) {
+    return null;
+  }
+  return body.slice(startIndex + start.length, endIndex);
+}
+
+/**
+ * Remove a marked section, markers included
+ */
+function removeSection(body: string, start: string, end: string): string {
+  const startIndex = body.indexOf(start);
+  const endIndex = body.indexOf(end, startIndex);
+  if (startIndex === -1 || endIndex === -1) {
+    return body;
+  }
+  return body.slice(0, startIndex) + body.slice(endIndex + end.length);
+}
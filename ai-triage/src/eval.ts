@@ -0,0 +1,494 @@
+/**
+ * Evaluation harness for triage quality
+ *
+ * Replays a corpus of issue fixtures through the analysis pipeline and
+ * compares the results with the expected triage. Used from the command
+ * line to check whether a prompt or model change improves triage:
+ *
+ *   npm run eval -- --fixtures eval/fixtures --model xai/grok-3-mini \
+ *     --model claude-sonnet-4-5 --output eval-report.json
+ *
+ * Each model is evaluated separately and reported side by side; the
+ * provider is detected from the model name unless `--provider` is given. With
+ * `--recorded` the responses stored in the fixtures are parsed instead of
+ * calling a model, which checks the parsing and scoring without API keys.
+ *
+ * API keys are read from ANTHROPIC_API_KEY, OPENAI_API_KEY, GITHUB_TOKEN
+ * and API_KEY.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseArgs } from "util";
+import { parse } from "yaml";
+import { analyzeIssue, parseAIResponse, AnalyzeOptions } from "./analyze";
+import { DEFAULT_CONFIG, parseTriageConfig } from "./config";
+import { parseModelList } from "./model-providers";
+import {
+  AnalysisOutcome,
+  ExistingSubtask,
+  IssueComment,
+  ModelUsage,
+  Priority,
+  Size,
+  TriageAnalysis,
+  TriageConfig,
+} from "./types";
+
+/**
+ * An issue with its expected triage
+ */
+interface Fixture {
+  /** Defaults to the file name */
+  name: string;
+
+  title: string;
+  body: string;
+  subtasks?: ExistingSubtask[];
+  comments?: IssueComment[];
+
+  /** Fields left out are not scored */
+  expected: {
+    labels?: string[];
+    priority?: Priority;
+    size?: Size;
+    is_agent_ready?: boolean;
+  };
+
+  /** Model response replayed with --recorded */
+  recorded_response?: string | Record<string, unknown>;
+}
+
+/**
+ * Outcome of one fixture for one model
+ */
+interface FixtureResult {
+  fixture: string;
+  outcome: AnalysisOutcome;
+  repairRounds: number;
+  analysis?: TriageAnalysis;
+  usage: ModelUsage[];
+  error?: string;
+}
+
+/** Rows are expected values, columns predicted values */
+type ConfusionMatrix = Record<string, Record<string, number>>;
+
+/**
+ * Scores of one model over the whole corpus
+ */
+interface ModelReport {
+  model: string;
+  fixtures: number;
+  outcomes: Record<AnalysisOutcome, number>;
+  parseFailureRate: number;
+  accuracy: Record<ScoredField, number | null>;
+  labels: {
+    precision: number | null;
+    recall: number | null;
+    f1: number | null;
+    exactMatch: number | null;
+  };
+  confusion: Record<ScoredField, ConfusionMatrix>;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  results: FixtureResult[];
+}
+
+type ScoredField = "priority" | "size" | "is_agent_ready";
+
+const SCORED_FIELDS: ScoredField[] = ["priority", "size", "is_agent_ready"];
+
+/** Label of the model column for replayed responses */
+const RECORDED = "recorded";
+
+/**
+ * Evaluate every model given on the command line and print the report
+ */
+async function evaluate(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      fixtures: { type: "string", default: "eval/fixtures" },
+      model: { type: "string", multiple: true, default: [] },
+      recorded: { type: "boolean", default: false },
+      provider: { type: "string", default: "" },
+      "base-url": { type: "string", default: "" },
+      config: { type: "string", default: "" },
+      output: { type: "string", default: "" },
+      "max-repair-attempts": { type: "string", default: "2" },
+    },
+  });
+
+  const fixtures = loadFixtures(values.fixtures as string);
+  const config = values.config
+    ? parseTriageConfig(parse(fs.readFileSync(values.config, "utf8")) ?? {})
+    : DEFAULT_CONFIG;
+  const models = values.model as string[];
+
+  if (!values.recorded && models.length === 0) {
+    throw new Error("Pass at least one --model, or --recorded");
+  }
+
+  const reports: ModelReport[] = [];
+  if (values.recorded) {
+    reports.push(scoreModel(RECORDED, fixtures, replayFixtures(fixtures)));
+  }
+
+  for (const model of models) {
+    const options: AnalyzeOptions = {
+      models: parseModelList(model),
+      providers: {
+        provider: values.provider as string,
+        baseUrl: values["base-url"] as string,
+        keys: {
+          anthropic: process.env.ANTHROPIC_API_KEY ?? "",
+          openai: process.env.OPENAI_API_KEY ?? "",
+          github: process.env.GITHUB_TOKEN ?? "",
+          generic: process.env.API_KEY ?? "",
+        },
+      },
+      maxRepairAttempts: parseInt(values["max-repair-attempts"] as string, 10),
+      retry: { maxRetries: 3, timeoutMs: 60_000 },
+      contextTokenBudget: 4000,
+      contextWindow: 0,
+      maxTokensPerIssue: 0,
+    };
+    const results = await analyzeFixtures(fixtures, options, config);
+    reports.push(scoreModel(model, fixtures, results));
+  }
+
+  process.stdout.write(`\n${renderReport(reports)}\n`);
+
+  if (values.output) {
+    fs.writeFileSync(values.output, JSON.stringify(reports, null, 2));
+    process.stdout.write(`Report written to ${values.output}\n`);
+  }
+}
+
+/**
+ * Read every `.json` fixture in a directory, sorted by name
+ */
+function loadFixtures(directory: string): Fixture[] {
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+  if (files.length === 0) {
+    throw new Error(`No fixtures found in ${directory}`);
+  }
+
+  return files.map((file) => {
+    const fixture = JSON.parse(
+      fs.readFileSync(path.join(directory, file), "utf8"),
+    );
+    if (typeof fixture.title !== "string" || !fixture.expected) {
+      throw new Error(`Fixture ${file} needs a title and expected values`);
+    }
+    return {
+      ...fixture,
+      name: fixture.name ?? path.basename(file, ".json"),
+      body: fixture.body ?? "",
+    };
+  });
+}
+
+/**
+ * Run every fixture through the analysis pipeline with a live model
+ */
+async function analyzeFixtures(
+  fixtures: Fixture[],
+  options: AnalyzeOptions,
+  config: TriageConfig,
+): Promise<FixtureResult[]> {
+  const results: FixtureResult[] = [];
+
+  for (const [i, fixture] of fixtures.entries()) {
+    const issue = {
+      number: i + 1,
+      title: fixture.title,
+      body: fixture.body,
+      node_id: "",
+    };
+    const usage: ModelUsage[] = [];
+
+    try {
+      const result = await analyzeIssue(
+        { owner: "eval", repo: "fixtures", issueNumber: issue.number, issue },
+        { ...options, onUsage: (call) => usage.push(call) },
+        config,
+        fixture.subtasks ?? [],
+        [],
+        {
+          comments: fixture.comments ?? [],
+          botComments: [],
+          pullRequests: [],
+          files: [],
+        },
+      );
+      results.push({
+        fixture: fixture.name,
+        outcome: result.outcome,
+        repairRounds: result.repairRounds,
+        analysis: result.analysis,
+        usage,
+      });
+    } catch (error) {
+      results.push({
+        fixture: fixture.name,
+        outcome: "failed",
+        repairRounds: Math.max(0, usage.length - 1),
+        usage,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Parse the recorded responses stored in the fixtures
+ */
+function replayFixtures(fixtures: Fixture[]): FixtureResult[] {
+  return fixtures.map((fixture) => {
+    const recorded = fixture.recorded_response;
+    if (recorded === undefined) {
+      return {
+        fixture: fixture.name,
+        outcome: "failed",
+        repairRounds: 0,
+        usage: [],
+        error: "No recorded response",
+      };
+    }
+
+    const parsed = parseAIResponse(
+      typeof recorded === "string" ? recorded : JSON.stringify(recorded),
+    );
+    return {
+      fixture: fixture.name,
+      outcome: parsed.analysis
+        ? parsed.coerced
+          ? "coerced"
+          : "valid"
+        : "failed",
+      repairRounds: 0,
+      analysis: parsed.analysis,
+      usage: [],
+      error: parsed.analysis ? undefined : parsed.errors.join("; "),
+    };
+  });
+}
+
+/**
+ * Compare the results of one model with the expected triage
+ */
+function scoreModel(
+  model: string,
+  fixtures: Fixture[],
+  results: FixtureResult[],
+): ModelReport {
+  const outcomes: Record<AnalysisOutcome, number> = {
+    valid: 0,
+    coerced: 0,
+    repaired: 0,
+    failed: 0,
+  };
+  for (const result of results) {
+    outcomes[result.outcome]++;
+  }
+
+  const accuracy = {} as Record<ScoredField, number | null>;
+  const confusion = {} as Record<ScoredField, ConfusionMatrix>;
+  for (const field of SCORED_FIELDS) {
+    let scored = 0;
+    let correct = 0;
+    const matrix: ConfusionMatrix = {};
+
+    for (const [i, fixture] of fixtures.entries()) {
+      const expected = fixture.expected[field];
+      if (expected === undefined) {
+        continue;
+      }
+      // A failed analysis counts as a wrong prediction
+      const analysis = results[i].analysis;
+      const predicted = analysis ? String(analysis[field]) : "failed";
+      scored++;
+      if (predicted === String(expected)) {
+        correct++;
+      }
+      const row = (matrix[String(expected)] ??= {});
+      row[predicted] = (row[predicted] ?? 0) + 1;
+    }
+
+    accuracy[field] = scored > 0 ? correct / scored : null;
+    confusion[field] = matrix;
+  }
+
+  const usage = results.flatMap((r) => r.usage);
+  return {
+    model,
+    fixtures: fixtures.length,
+    outcomes,
+    parseFailureRate: results.length > 0 ? outcomes.failed / results.length : 0,
+    accuracy,
+    labels: scoreLabels(fixtures, results),
+    confusion,
+    inputTokens: usage.reduce((sum, u) => sum + u.inputTokens, 0),
+    outputTokens: usage.reduce((sum, u) => sum + u.outputTokens, 0),
+    latencyMs: usage.reduce((sum, u) => sum + u.latencyMs, 0),
+    results,
+  };
+}
+
+/**
+ * Micro-averaged precision and recall of labels, and exact set matches
+ */
+function scoreLabels(
+  fixtures: Fixture[],
+  results: FixtureResult[],
+): ModelReport["labels"] {
+  let truePositives = 0;
+  let predictedCount = 0;
+  let expectedCount = 0;
+  let exact = 0;
+  let scored = 0;
+
+  for (const [i, fixture] of fixtures.entries()) {
+    if (!fixture.expected.labels) {
+      continue;
+    }
+    const expected = new Set(fixture.expected.labels.map(normalizeLabel));
+    const predicted = new Set(
+      (results[i].analysis?.labels ?? []).map(normalizeLabel),
+    );
+    const hits = Array.from(predicted).filter((l) => expected.has(l)).length;
+
+    scored++;
+    truePositives += hits;
+    predictedCount += predicted.size;
+    expectedCount += expected.size;
+    if (hits === expected.size && hits === predicted.size) {
+      exact++;
+    }
+  }
+
+  if (scored === 0) {
+    return { precision: null, recall: null, f1: null, exactMatch: null };
+  }
+  const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+  const recall = expectedCount > 0 ? truePositives / expectedCount : 0;
+  return {
+    precision,
+    recall,
+    f1:
+      precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0,
+    exactMatch: exact / scored,
+  };
+}
+
+/**
+ * Markdown report: a comparison table, then confusion matrices per model
+ */
+function renderReport(reports: ModelReport[]): string {
+  const percent = (value: number | null): string =>
+    value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+
+  const rows: [string, (r: ModelReport) => string][] = [
+    ["Fixtures", (r) => String(r.fixtures)],
+    ["Parse failures", (r) => percent(r.parseFailureRate)],
+    [
+      "Valid / coerced / repaired",
+      (r) =>
+        `${r.outcomes.valid} / ${r.outcomes.coerced} / ${r.outcomes.repaired}`,
+    ],
+    ["Priority accuracy", (r) => percent(r.accuracy.priority)],
+    ["Size accuracy", (r) => percent(r.accuracy.size)],
+    ["Agent-ready accuracy", (r) => percent(r.accuracy.is_agent_ready)],
+    ["Label precision", (r) => percent(r.labels.precision)],
+    ["Label recall", (r) => percent(r.labels.recall)],
+    ["Label F1", (r) => percent(r.labels.f1)],
+    ["Label exact match", (r) => percent(r.labels.exactMatch)],
+    ["Tokens (in / out)", (r) => `${r.inputTokens} / ${r.outputTokens}`],
+    ["Model time", (r) => `${(r.latencyMs / 1000).toFixed(1)}s`],
+  ];
+
+  const lines = [
+    "## Triage evaluation",
+    "",
+    `| Metric | ${reports.map((r) => r.model).join(" | ")} |`,
+    `|---|${reports.map(() => "---|").join("")}`,
+    ...rows.map(
+      ([name, value]) => `| ${name} | ${reports.map(value).join(" | ")} |`,
+    ),
+  ];
+
+  for (const report of reports) {
+    lines.push("", `### ${report.model}`);
+    for (const field of SCORED_FIELDS) {
+      lines.push("", renderConfusion(field, report.confusion[field]));
+    }
+
+    const failures = report.results.filter((r) => r.error);
+    if (failures.length > 0) {
+      lines.push("", "Failures:");
+      for (const failure of failures) {
+        lines.push(`- ${failure.fixture}: ${failure.error}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function renderConfusion(field: string, matrix: ConfusionMatrix): string {
+  const expected = Object.keys(matrix).sort();
+  const predicted = Array.from(
+    new Set([...expected, ...expected.flatMap((e) => Object.keys(matrix[e]))]),
+  ).sort();
+  if (expected.length === 0) {
+    return `${field}: not scored`;
+  }
+
+  return [
+    `| ${field} (expected ↓ / predicted →) | ${predicted.join(" | ")} |`,
+    `|---|${predicted.map(() => "---|").join("")}`,
+    ...expected.map(
+      (e) =>
+        `| ${e} | ${predicted.map((p) => matrix[e][p] ?? 0).join(" | ")} |`,
+    ),
+  ].join("\n");
+}
+
+function normalizeLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/\s*:\s*/, ":");
+}
+
+/**
+ * Command line entry point
+ */
+async function main(): Promise<void> {
+  // Outside Actions, step outputs set by the analysis would be printed as
+  // workflow commands; discard them instead
+  if (!process.env.GITHUB_OUTPUT) {
+    process.env.GITHUB_OUTPUT = os.devNull;
+  }
+
+  try {
+    await evaluate();
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,169 @@
+/**
+ * HTTP helpers for model provider calls: timeouts, retries and backoff
+ */
+
+import * as core from "@actions/core";
+import { Transport } from "./transport";
+
+/**
+ * Retry behaviour for a single model request
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt for retryable failures */
+  maxRetries: number;
+
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+}
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  timeoutMs: 60_000,
+};
+
+/** Base delay for exponential backoff */
+const BASE_DELAY_MS = 1_000;
+
+/** Longest we are willing to wait before a single retry */
+const MAX_DELAY_MS = 60_000;
+
+/** Rate limited, overloaded (Anthropic 529) and transient server errors */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+
+/**
+ * Error from an HTTP call, carrying whether it is worth trying elsewhere
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | undefined,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Whether an error came from a rate limit, overload or timeout
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof HttpError && error.retryable;
+}
+
+/**
+ * fetch() with a per-attempt timeout and exponential backoff on retryable
+ * failures
+ *
+ * `retry-after` / `retry-after-ms` headers are honoured. If the server asks
+ * us to wait longer than MAX_DELAY_MS (e.g. a daily quota), retrying is
+ * abandoned immediately so the caller can move on to another model.
+ * Non-retryable HTTP errors are thrown without retrying.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: FetchInit,
+  options: RetryOptions,
+  transport: Transport = fetch,
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let error: HttpError;
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await transport(url, {
+        ...init,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+
+      if (response.ok) {
+        return response;
+      }
+
+      const errorText = await response.text();
+      const retryable = RETRYABLE_STATUSES.includes(response.status);
+      error = new HttpError(
+        `HTTP ${response.status}: ${errorText}`,
+        response.status,
+        retryable,
+      );
+      if (!retryable) {
+        throw error;
+      }
+      retryAfterMs = parseRetryAfter(response.headers);
+    } catch (caught: any) {
+      if (caught instanceof HttpError) {
+        if (!caught.retryable) {
+          throw caught;
+        }
+        error = caught;
+      } else if (
+        caught.name === "TimeoutError" ||
+        caught.name === "AbortError"
+      ) {
+        error = new HttpError(
+          `Request timed out after ${options.timeoutMs}ms`,
+          undefined,
+          true,
+        );
+      } else {
+        // Network failures (DNS, connection reset) are worth retrying too
+        error = new HttpError(caught.message, undefined, true);
+      }
+    }
+
+    if (attempt >= options.maxRetries) {
+      throw error;
+    }
+
+    if (retryAfterMs !== undefined && retryAfterMs > MAX_DELAY_MS) {
+      core.warning(
+        `Server asked to retry after ${Math.round(retryAfterMs / 1000)}s, giving up on this model`,
+      );
+      throw error;
+    }
+
+    const delayMs = retryAfterMs ?? backoffDelay(attempt);
+    core.warning(
+      `${error.message.slice(0, 200)} - retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1}/${options.maxRetries})`,
+    );
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Exponential backoff with jitter, capped at MAX_DELAY_MS
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = BASE_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_DELAY_MS;
+  return Math.min(exponential + jitter, MAX_DELAY_MS);
+}
+
+/**
+ * Read the delay requested by the server, in milliseconds
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  // Either a number of seconds or an HTTP date
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
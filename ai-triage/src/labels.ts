@@ -0,0 +1,257 @@
+/**
+ * Label taxonomy enforcement
+ *
+ * The model may only apply labels from the configured taxonomy
+ * (`type:<name>` and `scope:<name>`). Its output is mapped to the nearest
+ * taxonomy label: exact matches first, then aliases, then close spellings.
+ * Anything else is dropped and reported instead of being created as a new
+ * label by `issues.addLabels`.
+ */
+
+import * as core from "@actions/core";
+import {
+  ActionContext,
+  LabelDefinition,
+  RepoContext,
+  TriageConfig,
+} from "./types";
+import { perform } from "./plan";
+
+/** Color for taxonomy labels without a configured color */
+const DEFAULT_COLORS: Record<string, string> = {
+  type: "1d76db",
+  scope: "c5def5",
+};
+
+/**
+ * A taxonomy label with its full name (e.g. "type:bug")
+ */
+interface TaxonomyLabel extends LabelDefinition {
+  fullName: string;
+  prefix: string;
+}
+
+/**
+ * Allowed labels and the labels that exist in the repository
+ *
+ * Loaded once per run and shared by every label resolution so the
+ * repository's labels are only listed once.
+ */
+export interface LabelTaxonomy {
+  labels: TaxonomyLabel[];
+
+  /** Existing repository label names, lowercased, mapped to their real name */
+  existing: Map<string, string>;
+
+  /** Create taxonomy labels missing from the repository */
+  createMissing: boolean;
+
+  /** Labels dropped because they matched nothing in the taxonomy */
+  rejected: string[];
+}
+
+/**
+ * Build the taxonomy from the config and fetch the repository's labels
+ */
+export async function loadLabelTaxonomy(
+  ctx: RepoContext,
+  config: TriageConfig,
+  createMissing: boolean,
+): Promise<LabelTaxonomy> {
+  const labels: TaxonomyLabel[] = [
+    ...config.labels.types.map((l) => toTaxonomyLabel("type", l)),
+    ...config.labels.scopes.map((l) => toTaxonomyLabel("scope", l)),
+  ];
+
+  const repoLabels = await ctx.octokit.paginate(
+    ctx.octokit.rest.issues.listLabelsForRepo,
+    { owner: ctx.owner, repo: ctx.repo, per_page: 100 },
+  );
+
+  const existing = new Map<string, string>();
+  for (const label of repoLabels) {
+    existing.set(label.name.toLowerCase(), label.name);
+  }
+
+  core.info(
+    `Loaded label taxonomy: ${labels.length} allowed label(s), ${existing.size} in repository`,
+  );
+  return { labels, existing, createMissing, rejected: [] };
+}
+
+/**
+ * Map labels emitted by the model onto the taxonomy
+ *
+ * Returns the repository label names to apply. Unknown labels are dropped
+ * with a warning and recorded in `taxonomy.rejected`. Taxonomy labels that
+ * do not exist yet are created when enabled, and dropped otherwise.
+ */
+export async function resolveLabels(
+  ctx: ActionContext,
+  taxonomy: LabelTaxonomy,
+  requested: string[],
+): Promise<string[]> {
+  const resolved: string[] = [];
+
+  for (const label of requested) {
+    const match = matchLabel(label, taxonomy.labels);
+    if (!match) {
+      core.warning(`Dropping label "${label}": not in the label taxonomy`);
+      if (!taxonomy.rejected.includes(label)) {
+        taxonomy.rejected.push(label);
+      }
+      continue;
+    }
+
+    if (match.fullName !== label) {
+      core.info(`Mapped label "${label}" to "${match.fullName}"`);
+    }
+
+    const name = await ensureLabel(ctx, taxonomy, match);
+    if (name && !resolved.includes(name)) {
+      resolved.push(name);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Return the repository's name for a taxonomy label, creating it if needed
+ */
+async function ensureLabel(
+  ctx: ActionContext,
+  taxonomy: LabelTaxonomy,
+  label: TaxonomyLabel,
+): Promise<string | undefined> {
+  const existing = taxonomy.existing.get(label.fullName.toLowerCase());
+  if (existing) {
+    return existing;
+  }
+
+  if (!taxonomy.createMissing) {
+    core.warning(
+      `Skipping label "${label.fullName}": it does not exist in the repository ` +
+        `(set create-missing-labels to create it)`,
+    );
+    return undefined;
+  }
+
+  const color = label.color || DEFAULT_COLORS[label.prefix];
+  await perform(
+    ctx,
+    {
+      type: "create-label",
+      target: label.fullName,
+      description: `Create label ${label.fullName} (#${color})`,
+      details: { name: label.fullName, color, description: label.description },
+    },
+    async () => {
+      try {
+        await ctx.octokit.rest.issues.createLabel({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          name: label.fullName,
+          color,
+          // GitHub limits label descriptions to 100 characters
+          description: label.description.slice(0, 100),
+        });
+      } catch (error: any) {
+        // Created meanwhile, e.g. by another issue in the same batch
+        if (error.status !== 422) {
+          throw error;
+        }
+      }
+    },
+    undefined,
+  );
+
+  core.info(`Created label: ${label.fullName}`);
+  taxonomy.existing.set(label.fullName.toLowerCase(), label.fullName);
+  return label.fullName;
+}
+
+/**
+ * Find the taxonomy label closest to a label emitted by the model
+ */
+function matchLabel(
+  label: string,
+  taxonomy: TaxonomyLabel[],
+): TaxonomyLabel | undefined {
+  const normalized = normalize(label);
+  const separator = normalized.indexOf(":");
+  const prefix = separator === -1 ? "" : normalized.slice(0, separator);
+  const name = normalized.slice(separator + 1);
+
+  // Only compare against the same prefix when the model used a known one
+  const candidates = taxonomy.some((l) => l.prefix === prefix)
+    ? taxonomy.filter((l) => l.prefix === prefix)
+    : taxonomy;
+
+  const exact = candidates.find((l) => normalize(l.name) === name);
+  if (exact) {
+    return exact;
+  }
+
+  const alias = candidates.find((l) =>
+    l.aliases.some((a) => normalize(a) === name),
+  );
+  if (alias) {
+    return alias;
+  }
+
+  // Close spelling, e.g. "documentaton" or "bugs"
+  const maxDistance = Math.max(1, Math.floor(name.length / 4));
+  let best: TaxonomyLabel | undefined;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    for (const option of [candidate.name, ...candidate.aliases]) {
+      const distance = levenshtein(name, normalize(option));
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+function toTaxonomyLabel(
+  prefix: string,
+  label: LabelDefinition,
+): TaxonomyLabel {
+  return { ...label, prefix, fullName: `${prefix}:${label.name}` };
+}
+
+/**
+ * Lowercase and unify separators: "Scope : API_Design" -> "scope:api-design"
+ */
+function normalize(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/\s*:\s*/, ":")
+    .replace(/[\s_/]+/g, "-");
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -11,41 +11,336 @@
 
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import { analyzeIssue } from "./analyze";
-import { processTriageAnalysis } from "./process-triage";
+import { analyzeIssue, AnalyzeOptions } from "./analyze";
+import {
+  addLabels,
+  holdForReview,
+  processTriageAnalysis,
+  removeTriageLabel,
+  DescriptionMode,
+} from "./process-triage";
+import { checkPolicy, detectInjection } from "./safety";
 import { updateProjectFields } from "./update-project";
 import { fetchExistingSubtasks } from "./subtasks";
-import { ActionContext, ProjectConfig } from "./types";
+import { IssuePlan, writeBatchPlan, writePlan } from "./plan";
+import { loadTriageConfig, DEFAULT_CONFIG_PATH } from "./config";
+import { loadLabelTaxonomy, LabelTaxonomy } from "./labels";
+import { findRelatedIssues } from "./related";
+import { BotCommentMode, gatherIssueContext } from "./context";
+import { parseModelList } from "./model-providers";
+import { reportUsage } from "./usage";
+import { createTransport, HttpMode } from "./transport";
+import { evaluateTriggers } from "./triggers";
+import {
+  applyOverrides,
+  describeOverrides,
+  isAuthorized,
+  loadOverrides,
+  overrideWith,
+  parseCommand,
+  replyToCommand,
+  COMMAND_USAGE,
+  SPLIT_INSTRUCTIONS,
+  CommandComment,
+  TriageCommand,
+} from "./commands";
+import {
+  budgetModels,
+  deferIssue,
+  loadBudget,
+  recordBudgetUsage,
+  saveBudget,
+  Budget,
+  BudgetStatus,
+  BudgetStore,
+} from "./budget";
+import {
+  findBatchIssues,
+  runBatch,
+  writeBatchSummary,
+  BatchOptions,
+} from "./batch";
+import {
+  ActionContext,
+  ProjectConfig,
+  ModelUsage,
+  RepoContext,
+  SubtaskLinkMode,
+  TriageAnalysis,
+  TriageConfig,
+  TriageIssue,
+} from "./types";
 
 /**
- * Check if the action should run based on default triggers
+ * Settings from the action inputs, shared by every triaged issue
  */
-function shouldRunTriage(context: typeof github.context): boolean {
-  const action = context.payload.action;
-  const issue = context.payload.issue;
-
-  // Trigger 1: Issue opened
-  if (action === "opened") {
-    core.info("✅ Trigger: Issue opened");
-    return true;
-  }
+interface TriageSettings {
+  analyzeOptions: AnalyzeOptions;
+  descriptionMode: DescriptionMode;
+  relatedIssueLimit: number;
+  similarityIndexPath: string;
+  closeDuplicates: boolean;
+  rollbackSubtasks: boolean;
+  botComments: BotCommentMode;
 
-  // Trigger 2 & 3: Check for specific labels
-  if (action === "labeled" && issue?.labels) {
-    const labels = issue.labels.map((l: any) => l.name);
+  /** Project board to update; skipped when not configured */
+  projectConfig?: ProjectConfig;
+}
 
-    if (labels.includes("needs-triage")) {
-      core.info("✅ Trigger: needs-triage label added");
-      return true;
-    }
+/**
+ * Result of triaging one issue
+ */
+interface TriageResult {
+  /** Missing when the issue was deferred */
+  analysis?: TriageAnalysis;
+
+  /** Model calls made */
+  usage: ModelUsage[];
+
+  budgetStatus: BudgetStatus;
+
+  /** Why the issue was held for human review; empty when triaged */
+  findings: string[];
+}
+
+/**
+ * What a single triage run was asked to do beyond the usual
+ */
+interface TriageRequest {
+  /** Added to the prompt, e.g. for /triage split */
+  instructions?: string;
 
-    if (labels.includes("triage:backlog")) {
-      core.info("✅ Trigger: triage:backlog label added");
-      return true;
+  /** Analyze without changing the issue (/triage explain) */
+  explainOnly?: boolean;
+
+  /** Called with each model call as it completes */
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * Triage one issue: gather context, analyze it and apply the result
+ *
+ * When the budget is spent the issue is deferred instead, or analyzed with
+ * the fallback models. Values a maintainer overrode with a /triage command
+ * are kept.
+ */
+async function triageIssue(
+  ctx: ActionContext,
+  settings: TriageSettings,
+  config: TriageConfig,
+  labels: LabelTaxonomy,
+  budget: Budget | undefined,
+  request: TriageRequest = {},
+): Promise<TriageResult> {
+  const { status, models } = budgetModels(
+    budget,
+    settings.analyzeOptions.models,
+  );
+  if (status === "deferred") {
+    // An explanation changes nothing, so there is nothing to retry later
+    if (!request.explainOnly) {
+      await deferIssue(ctx);
     }
+    return { usage: [], budgetStatus: status, findings: [] };
+  }
+
+  // Fetch existing subtasks
+  const existingSubtasks = await fetchExistingSubtasks(ctx);
+  if (existingSubtasks.length > 0) {
+    core.info(`Found ${existingSubtasks.length} existing subtasks`);
+  }
+
+  // Find candidate duplicates and related issues
+  const relatedIssues =
+    settings.relatedIssueLimit > 0
+      ? await findRelatedIssues(
+          ctx,
+          {
+            limit: settings.relatedIssueLimit,
+            indexPath: settings.similarityIndexPath,
+          },
+          existingSubtasks.map((s) => s.number),
+        )
+      : [];
+
+  // Gather comments, linked PRs and referenced files
+  const issueContext = await gatherIssueContext(ctx, {
+    botComments: settings.botComments,
+  });
+
+  // Analyze issue with AI
+  const { analysis, usage } = await analyzeIssue(
+    ctx,
+    {
+      ...settings.analyzeOptions,
+      models,
+      maxTokensPerIssue: config.budget.max_tokens_per_issue,
+      onUsage: (call) => {
+        recordBudgetUsage(budget, call);
+        request.onUsage?.(call);
+      },
+      instructions: request.instructions,
+    },
+    config,
+    existingSubtasks,
+    relatedIssues,
+    issueContext,
+  );
+  core.info("AI analysis complete");
+  core.debug(`Analysis: ${JSON.stringify(analysis, null, 2)}`);
+
+  // Hold back issues that look manipulated or whose analysis breaks policy
+  const untrusted: Record<string, string> = {
+    "issue title": ctx.issue.title,
+    "issue body": ctx.issue.body,
+  };
+  for (const comment of issueContext.comments) {
+    untrusted[`comment by @${comment.author} (${comment.created_at})`] =
+      comment.body;
+  }
+  const findings = [
+    ...detectInjection(untrusted),
+    ...checkPolicy(analysis, config.policy, ctx.issue),
+  ];
+  if (request.explainOnly) {
+    return { analysis, usage, budgetStatus: status, findings };
+  }
+  if (findings.length > 0) {
+    await holdForReview(ctx, findings);
+    return { analysis, usage, budgetStatus: status, findings };
+  }
+
+  // Maintainers' overrides win over the model
+  applyOverrides(analysis, await loadOverrides(ctx));
+
+  // Process triage (update issue, add labels, post comments)
+  await processTriageAnalysis(ctx, analysis, {
+    descriptionMode: settings.descriptionMode,
+    labels,
+    relatedIssues,
+    closeDuplicates: settings.closeDuplicates,
+    rollbackSubtasks: settings.rollbackSubtasks,
+    projectConfig: settings.projectConfig,
+  });
+
+  // Update project fields if configured
+  if (settings.projectConfig) {
+    await updateProjectFields(ctx, analysis, settings.projectConfig);
+  } else {
+    core.info("Project configuration not provided, skipping project update");
   }
 
-  return false;
+  return { analysis, usage, budgetStatus: status, findings };
+}
+
+/**
+ * Carry out a /triage command posted in an issue comment
+ *
+ * Returns the triage result for commands that run one (rerun, split and
+ * explain), undefined for override commands.
+ */
+async function runCommand(
+  ctx: ActionContext,
+  command: TriageCommand,
+  settings: TriageSettings,
+  config: TriageConfig,
+  labels: LabelTaxonomy,
+  budget: Budget | undefined,
+): Promise<TriageResult | undefined> {
+  core.info(`💬 Command from @${command.author}: ${command.name}`);
+
+  // Unauthorized commenters get no reply, so they cannot make the bot post
+  const permission = config.commands.permission;
+  if (!(await isAuthorized(ctx, command.author, permission))) {
+    core.info(
+      `⏭️  Skipping: @${command.author} lacks ${permission} permission`,
+    );
+    return undefined;
+  }
+
+  const overrides = await loadOverrides(ctx);
+  if (command.error) {
+    await replyToCommand(
+      ctx,
+      command,
+      `${command.error}\n\n${COMMAND_USAGE}`,
+      overrides,
+    );
+    return undefined;
+  }
+
+  if (["rerun", "split", "explain"].includes(command.name)) {
+    const result = await triageIssue(ctx, settings, config, labels, budget, {
+      instructions: command.name === "split" ? SPLIT_INSTRUCTIONS : undefined,
+      explainOnly: command.name === "explain",
+    });
+    await replyToCommand(
+      ctx,
+      command,
+      describeResult(command, result),
+      overrides,
+    );
+    return result;
+  }
+
+  const updated = overrideWith(overrides, command);
+  if (command.name === "ready") {
+    await addLabels(ctx, ["status:ready-for-review"]);
+    await removeTriageLabel(ctx);
+  }
+  if (settings.projectConfig && command.name !== "clear") {
+    await updateProjectFields(ctx, updated, settings.projectConfig);
+  }
+
+  const message =
+    command.name === "clear"
+      ? "Overrides cleared; the next triage decides every value again."
+      : `Set ${describeOverrides(overrideWith({}, command))}. ` +
+        "This value is kept when the issue is triaged again.";
+  await replyToCommand(ctx, command, message, updated);
+  return undefined;
+}
+
+/**
+ * Summarize a triage run for the reply to a command
+ */
+function describeResult(command: TriageCommand, result: TriageResult): string {
+  const { analysis, findings } = result;
+  if (!analysis) {
+    return command.name === "explain"
+      ? "The model budget is spent, so there is no assessment now. Nothing was changed; ask again once the budget allows."
+      : "Deferred: the model budget is spent. The issue will be triaged when it allows.";
+  }
+
+  const summary =
+    `**Agent ready:** ${analysis.is_agent_ready ? "yes" : "no"}\n` +
+    `**Priority:** ${analysis.priority}\n` +
+    `**Size:** ${analysis.size}\n` +
+    `**Labels:** ${analysis.labels.join(", ") || "none"}`;
+
+  if (command.name === "explain") {
+    const questions =
+      analysis.clarifying_questions.length > 0
+        ? `\n\n**Open questions:**\n${analysis.clarifying_questions.map((q) => `- ${q}`).join("\n")}`
+        : "";
+    const held =
+      findings.length > 0
+        ? `\n\n**Would be held for human review:**\n${findings.map((f) => `- ${f}`).join("\n")}`
+        : "";
+    return (
+      `Current assessment (nothing was changed):\n\n${summary}\n\n` +
+      `**Reasoning:** ${analysis.reasoning}${questions}${held}`
+    );
+  }
+
+  if (findings.length > 0) {
+    return "Triage ran again, but the result was held for human review.";
+  }
+  const subtasks =
+    command.name === "split"
+      ? `\n**Subtasks proposed:** ${analysis.subtasks_to_create.length}`
+      : "";
+  return `Triage ran again:\n\n${summary}${subtasks}`;
 }
 
 /**
@@ -56,76 +351,286 @@ async function run(): Promise<void> {
     // Get inputs
     const token = core.getInput("token", { required: true });
     const model = core.getInput("model") || "xai/grok-3-mini";
+    const models = parseModelList(core.getInput("models"));
     const anthropicKey = core.getInput("anthropic-api-key") || "";
     const openaiKey = core.getInput("openai-api-key") || "";
+    const apiKey = core.getInput("api-key") || "";
+    const provider = core.getInput("provider");
+    const baseUrl = core.getInput("base-url");
     const projectOwner = core.getInput("project-owner");
     const projectNumber = core.getInput("project-number");
+    const projectParentField = core.getInput("project-parent-field");
+    const projectIterationField = core.getInput("project-iteration-field");
     const skipTriggerCheck = core.getInput("skip-trigger-check") === "true";
+    const mode = core.getInput("mode") || "issue";
+    const dryRun = core.getInput("dry-run") === "true";
+    const createMissingLabels =
+      core.getInput("create-missing-labels") !== "false";
+    const keepCommentHistory = core.getInput("comment-history") === "true";
+    const subtaskLinkMode = (core.getInput("subtask-link-mode") ||
+      "sub-issues") as SubtaskLinkMode;
+    const relatedIssueLimit = parseInt(
+      core.getInput("related-issue-limit") || "5",
+      10,
+    );
+    const similarityIndexPath = core.getInput("similarity-index-path");
+    const closeDuplicates = core.getInput("close-duplicates") === "true";
+    const rollbackSubtasks = core.getInput("rollback-subtasks") === "true";
+    const contextTokenBudget = parseInt(
+      core.getInput("context-token-budget") || "4000",
+      10,
+    );
+    const contextWindow = parseInt(core.getInput("context-window") || "0", 10);
+    const botComments = (core.getInput("bot-comments") ||
+      "summarize") as BotCommentMode;
+    const descriptionMode = (core.getInput("description-mode") ||
+      "append") as DescriptionMode;
+    const configPath = core.getInput("config-path") || DEFAULT_CONFIG_PATH;
+    const usageLedger = core.getInput("usage-ledger");
+    const budgetStore = (core.getInput("budget-store") ||
+      "issue") as BudgetStore;
+    const httpMode = (core.getInput("http-mode") || "live") as HttpMode;
+    const cassettePath = core.getInput("cassette-path");
+    const maxRepairAttempts = parseInt(
+      core.getInput("max-repair-attempts") || "2",
+      10,
+    );
+    const maxRetries = parseInt(core.getInput("max-retries") || "3", 10);
+    const requestTimeout = parseInt(
+      core.getInput("request-timeout") || "60",
+      10,
+    );
 
-    // Initialize GitHub client
-    const octokit = github.getOctokit(token);
+    if (!["live", "record", "replay"].includes(httpMode)) {
+      throw new Error(
+        `Invalid http-mode '${httpMode}': expected 'live', 'record' or 'replay'`,
+      );
+    }
+
+    // Initialize GitHub client; model calls share its transport
+    const transport = createTransport(httpMode, cassettePath);
+    const octokit = github.getOctokit(token, { request: { fetch: transport } });
     const context = github.context;
 
-    // Validate context
-    if (!context.payload.issue) {
-      throw new Error("This action must be triggered by an issue event");
+    if (!["append", "comment"].includes(descriptionMode)) {
+      throw new Error(
+        `Invalid description-mode '${descriptionMode}': expected 'append' or 'comment'`,
+      );
     }
 
-    const issueNumber = context.payload.issue.number;
-    const owner = context.repo.owner;
-    const repo = context.repo.repo;
+    if (!["issue", "batch"].includes(mode)) {
+      throw new Error(`Invalid mode '${mode}': expected 'issue' or 'batch'`);
+    }
 
-    core.info(`Processing issue #${issueNumber} in ${owner}/${repo}`);
+    if (!["summarize", "exclude"].includes(botComments)) {
+      throw new Error(
+        `Invalid bot-comments '${botComments}': expected 'summarize' or 'exclude'`,
+      );
+    }
 
-    // Check default triggers (unless skipped)
-    if (!skipTriggerCheck && !shouldRunTriage(context)) {
-      core.info("⏭️  Skipping: Does not match default triggers");
-      core.info(
-        "Triggers: issue opened, or labels: needs-triage, triage:backlog",
+    if (!["sub-issues", "text"].includes(subtaskLinkMode)) {
+      throw new Error(
+        `Invalid subtask-link-mode '${subtaskLinkMode}': expected 'sub-issues' or 'text'`,
       );
-      return;
     }
 
-    // Create action context
-    const ctx: ActionContext = {
+    if (!["issue", "variable"].includes(budgetStore)) {
+      throw new Error(
+        `Invalid budget-store '${budgetStore}': expected 'issue' or 'variable'`,
+      );
+    }
+
+    const settings: TriageSettings = {
+      analyzeOptions: {
+        models: models.length > 0 ? models : [model],
+        providers: {
+          provider,
+          baseUrl,
+          keys: {
+            anthropic: anthropicKey,
+            openai: openaiKey,
+            github: token,
+            generic: apiKey,
+          },
+          transport,
+        },
+        maxRepairAttempts,
+        retry: { maxRetries, timeoutMs: requestTimeout * 1000 },
+        contextTokenBudget,
+        contextWindow,
+        maxTokensPerIssue: 0,
+      },
+      descriptionMode,
+      relatedIssueLimit,
+      similarityIndexPath,
+      closeDuplicates,
+      rollbackSubtasks,
+      botComments,
+      projectConfig:
+        projectOwner && projectNumber
+          ? {
+              owner: projectOwner,
+              number: parseInt(projectNumber, 10),
+              parentField: projectParentField || undefined,
+              iterationField: projectIterationField || undefined,
+            }
+          : undefined,
+    };
+
+    const owner = context.repo.owner;
+    const repo = context.repo.repo;
+    const repoCtx: RepoContext = { octokit, owner, repo };
+    const usageOptions = {
+      ledgerPath: usageLedger,
+      repository: `${owner}/${repo}`,
+      runId: context.runId,
+    };
+
+    // Create the context for one issue
+    const createContext = (issue: TriageIssue): ActionContext => ({
       octokit,
       context,
-      issueNumber,
+      issueNumber: issue.number,
+      issue,
       owner,
       repo,
-    };
+      dryRun,
+      plan: [],
+      keepCommentHistory,
+      subtaskLinkMode,
+    });
 
-    // Fetch existing subtasks
-    const existingSubtasks = await fetchExistingSubtasks(ctx);
-    if (existingSubtasks.length > 0) {
-      core.info(`Found ${existingSubtasks.length} existing subtasks`);
+    if (dryRun) {
+      core.info("🧪 Dry run: no changes will be made to GitHub");
     }
 
-    // Analyze issue with AI
-    const analysis = await analyzeIssue(
-      ctx,
-      model,
-      anthropicKey,
-      openaiKey,
-      token,
-      existingSubtasks,
-    );
-    core.info("AI analysis complete");
-    core.debug(`Analysis: ${JSON.stringify(analysis, null, 2)}`);
+    if (mode === "batch") {
+      const batchOptions: BatchOptions = {
+        query: core.getInput("batch-query") || "label:needs-triage",
+        limit: parseInt(core.getInput("batch-limit") || "10", 10),
+        concurrency: parseInt(core.getInput("batch-concurrency") || "2", 10),
+      };
 
-    // Process triage (update issue, add labels, post comments)
-    await processTriageAnalysis(ctx, analysis);
+      const config = await loadTriageConfig(repoCtx, configPath);
+      const labels = await loadLabelTaxonomy(
+        repoCtx,
+        config,
+        createMissingLabels,
+      );
+      const budget = await loadBudget(repoCtx, config, budgetStore);
+      const issues = await findBatchIssues(repoCtx, batchOptions);
+      const plans = new Map<number, IssuePlan>();
 
-    // Update project fields if configured
-    if (projectOwner && projectNumber) {
-      const projectConfig: ProjectConfig = {
-        owner: projectOwner,
-        number: parseInt(projectNumber, 10),
-      };
+      const results = await runBatch(
+        repoCtx,
+        issues,
+        batchOptions.concurrency,
+        async (issue, onUsage) => {
+          const ctx = createContext(issue);
+          const { analysis, findings } = await triageIssue(
+            ctx,
+            settings,
+            config,
+            labels,
+            budget,
+            { onUsage },
+          );
+          if (dryRun && analysis) {
+            plans.set(issue.number, {
+              issue: issue.number,
+              analysis,
+              operations: ctx.plan,
+            });
+          }
+          return {
+            analysis,
+            plannedOperations: ctx.plan.length,
+            findings,
+          };
+        },
+      );
+      await saveBudget(repoCtx, budget, dryRun);
+      await writeBatchSummary(results, dryRun);
+      if (dryRun) {
+        await writeBatchPlan(results.flatMap((r) => plans.get(r.issue) ?? []));
+      }
+      await reportUsage(
+        results.map((r) => ({ issue: r.issue, usage: r.usage ?? [] })),
+        { ...usageOptions, prices: config.prices },
+      );
 
-      await updateProjectFields(ctx, analysis, projectConfig);
-    } else {
-      core.info("Project configuration not provided, skipping project update");
+      if (results.length > 0 && results.every((r) => r.status === "failed")) {
+        core.setFailed("Every issue in the batch failed to triage");
+      }
+      return;
+    }
+
+    // Validate context
+    const payloadIssue = context.payload.issue;
+    if (!payloadIssue) {
+      throw new Error(
+        "This action must be triggered by an issue event (or run with mode: batch)",
+      );
+    }
+
+    if (payloadIssue.pull_request) {
+      core.info("⏭️  Skipping: comment on a pull request");
+      return;
+    }
+
+    core.info(`Processing issue #${payloadIssue.number} in ${owner}/${repo}`);
+
+    // Load repository triage config
+    const config = await loadTriageConfig(repoCtx, configPath);
+
+    // Check trigger rules (unless skipped)
+    if (!skipTriggerCheck) {
+      const decision = await evaluateTriggers(
+        repoCtx,
+        context,
+        config.triggers,
+      );
+      if (!decision.run) {
+        core.info(`⏭️  Skipping: ${decision.reason}`);
+        return;
+      }
+      core.info(`✅ Trigger: ${decision.reason}`);
+    }
+
+    // Create action context
+    const ctx = createContext({
+      number: payloadIssue.number,
+      title: payloadIssue.title,
+      body: payloadIssue.body || "",
+      node_id: payloadIssue.node_id,
+      labels: payloadIssue.labels?.map((l: { name: string }) => l.name),
+    });
+
+    // Load the label taxonomy
+    const labels = await loadLabelTaxonomy(ctx, config, createMissingLabels);
+
+    const budget = await loadBudget(ctx, config, budgetStore);
+    const comment = context.payload.comment as CommandComment | undefined;
+    const command = comment ? parseCommand(comment) : undefined;
+
+    let result: TriageResult | undefined;
+    try {
+      result = command
+        ? await runCommand(ctx, command, settings, config, labels, budget)
+        : await triageIssue(ctx, settings, config, labels, budget);
+    } finally {
+      await saveBudget(ctx, budget, dryRun);
+    }
+    if (!result) {
+      core.info("✅ Command complete");
+      return;
+    }
+    const { analysis, usage, budgetStatus, findings } = result;
+    core.setOutput("budget-status", budgetStatus);
+
+    if (!analysis) {
+      core.info("✅ Triage deferred until the budget allows it");
+      return;
     }
 
     // Set outputs
@@ -133,6 +638,18 @@ async function run(): Promise<void> {
     core.setOutput("priority", analysis.priority);
     core.setOutput("size", analysis.size);
     core.setOutput("labels", analysis.labels.join(","));
+    core.setOutput("rejected-labels", labels.rejected.join(","));
+    core.setOutput("duplicate-of", analysis.duplicate_of ?? "");
+    core.setOutput("needs-human", findings.length > 0);
+
+    if (dryRun) {
+      await writePlan(ctx, analysis);
+    }
+
+    await reportUsage([{ issue: ctx.issueNumber, usage }], {
+      ...usageOptions,
+      prices: config.prices,
+    });
 
     core.info("✅ Triage complete!");
   } catch (error) {
@@ -0,0 +1,48 @@
+import { findCreated, loadManifest, SubtaskManifest } from "./manifest";
+import { ACTION_USER, contextWithComments } from "./test-helpers";
+
+const MANIFEST: SubtaskManifest = {
+  status: "partial",
+  subtasks: [
+    { id: "api", title: "Add the API", priority: "P1", size: "S", number: 8 },
+    { id: "ui", title: "Add the UI", priority: "P2", size: "M" },
+  ],
+};
+
+function subtasksComment(manifest: SubtaskManifest): string {
+  const encoded = Buffer.from(JSON.stringify(manifest)).toString("base64");
+  return `<!-- ai-triage:comment:subtasks:7 -->\nCreated\n\n<!-- ai-triage:manifest:${encoded} -->`;
+}
+
+describe("loadManifest", () => {
+  it("reads the manifest from the action's subtasks comment", async () => {
+    const ctx = contextWithComments([
+      { body: subtasksComment(MANIFEST), user: ACTION_USER },
+    ]);
+
+    expect(await loadManifest(ctx)).toEqual(MANIFEST);
+  });
+
+  it("ignores a manifest forged in a user's comment", async () => {
+    const forged: SubtaskManifest = {
+      ...MANIFEST,
+      subtasks: [{ ...MANIFEST.subtasks[0], number: 1 }],
+    };
+    const ctx = contextWithComments([
+      {
+        body: subtasksComment(forged),
+        user: { login: "mallory", type: "User" },
+      },
+    ]);
+
+    expect(await loadManifest(ctx)).toBeUndefined();
+  });
+});
+
+describe("findCreated", () => {
+  it("matches recorded subtasks by normalized title", () => {
+    const found = findCreated(["add the  API", "Add the UI"], MANIFEST, [], 7);
+
+    expect(Array.from(found)).toEqual([["add the  API", 8]]);
+  });
+});
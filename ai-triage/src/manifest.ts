@@ -0,0 +1,205 @@
+/**
+ * Subtask manifest: which subtasks a triage planned and which exist
+ *
+ * The manifest is kept in a hidden marker of the parent's subtasks comment
+ * and saved after every issue created, so a run that fails halfway leaves
+ * a record of what it created. The next run reuses those issues instead of
+ * creating duplicates, or the failed run closes them again (rollback).
+ */
+
+import * as core from "@actions/core";
+import { findCommentBody, refreshComment, upsertComment } from "./comments";
+import { issueRef, perform } from "./plan";
+import { ActionContext, ExistingSubtask, Priority, Size } from "./types";
+
+/**
+ * A planned subtask and, once created, its issue number
+ */
+export interface ManifestEntry {
+  id: string;
+  title: string;
+  priority: Priority;
+  size: Size;
+  number?: number;
+
+  /** GraphQL node ID of the issue, when created by this action */
+  node_id?: string;
+}
+
+/**
+ * - in-progress: creation is running (or the run died while creating)
+ * - complete: every planned subtask exists
+ * - partial: creation failed; the rest is created on the next run
+ * - rolled-back: creation failed and the subtasks created were closed
+ */
+export type ManifestStatus =
+  | "in-progress"
+  | "complete"
+  | "partial"
+  | "rolled-back";
+
+export interface SubtaskManifest {
+  status: ManifestStatus;
+  subtasks: ManifestEntry[];
+
+  /** Why creation stopped, for partial and rolled-back manifests */
+  error?: string;
+}
+
+const MANIFEST_PATTERN = /<!-- ai-triage:manifest:([A-Za-z0-9+/=]*) -->/;
+
+/**
+ * Hidden marker put in the body of every subtask, naming its parent
+ */
+export function subtaskMarker(parent: number): string {
+  return `<!-- ai-triage:subtask-of:${parent} -->`;
+}
+
+/**
+ * Read the manifest of the previous subtask creation, if any
+ */
+export async function loadManifest(
+  ctx: ActionContext,
+): Promise<SubtaskManifest | undefined> {
+  const body = await findCommentBody(ctx, ctx.issueNumber, "subtasks");
+  const match = body?.match(MANIFEST_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(match[1], "base64").toString("utf8"));
+  } catch {
+    core.warning("Ignoring unreadable subtask manifest");
+    return undefined;
+  }
+}
+
+/**
+ * Find issues already created for planned subtasks, by title
+ *
+ * Issues recorded in the previous manifest are reused whatever their
+ * state; open subtasks carrying the parent's marker cover runs that died
+ * before recording what they created. Rolled-back issues are never reused.
+ */
+export function findCreated(
+  titles: string[],
+  previous: SubtaskManifest | undefined,
+  existing: ExistingSubtask[],
+  parent: number,
+): Map<string, number> {
+  const candidates = new Map<string, number>();
+  for (const subtask of existing) {
+    if (
+      subtask.state === "open" &&
+      subtask.body.includes(subtaskMarker(parent))
+    ) {
+      candidates.set(normalizeTitle(subtask.title), subtask.number);
+    }
+  }
+  for (const entry of previous?.subtasks ?? []) {
+    if (entry.number && entry.number > 0) {
+      candidates.set(normalizeTitle(entry.title), entry.number);
+    }
+  }
+
+  const found = new Map<string, number>();
+  for (const title of titles) {
+    const number = candidates.get(normalizeTitle(title));
+    if (number) {
+      found.set(title, number);
+    }
+  }
+  return found;
+}
+
+/**
+ * Write the manifest to the parent's subtasks comment
+ *
+ * The first save of a run notes what changed since the previous triage;
+ * later saves of the same run (`progress`) only update the comment.
+ */
+export async function saveManifest(
+  ctx: ActionContext,
+  manifest: SubtaskManifest,
+  progress: boolean,
+): Promise<void> {
+  const encoded = Buffer.from(JSON.stringify(manifest)).toString("base64");
+  const body = `${renderManifest(manifest)}\n\n<!-- ai-triage:manifest:${encoded} -->`;
+  const state = { Subtasks: String(manifest.subtasks.length) };
+  await (progress ? refreshComment : upsertComment)(
+    ctx,
+    ctx.issueNumber,
+    "subtasks",
+    body,
+    state,
+  );
+}
+
+/**
+ * Close subtasks created by a failed run
+ */
+export async function rollBack(
+  ctx: ActionContext,
+  issueNumbers: number[],
+): Promise<void> {
+  for (const issueNumber of issueNumbers) {
+    try {
+      await perform(
+        ctx,
+        {
+          type: "close-issue",
+          target: issueRef(issueNumber),
+          description: `Close ${issueRef(issueNumber)}: subtask creation rolled back`,
+          details: { state_reason: "not_planned" },
+        },
+        () =>
+          ctx.octokit.rest.issues.update({
+            owner: ctx.owner,
+            repo: ctx.repo,
+            issue_number: issueNumber,
+            state: "closed",
+            state_reason: "not_planned",
+          }),
+        undefined,
+      );
+      core.info(`↩️ Closed ${issueRef(issueNumber)}`);
+    } catch (error) {
+      core.warning(`Failed to close ${issueRef(issueNumber)}: ${error}`);
+    }
+  }
+}
+
+function renderManifest(manifest: SubtaskManifest): string {
+  const created = manifest.subtasks.filter((s) => s.number !== undefined);
+  const lines = manifest.subtasks
+    .map((s) => {
+      const metaInfo = `Priority: ${s.priority} | Size: ${s.size}`;
+      return s.number !== undefined
+        ? `- ${issueRef(s.number)} - ${s.title} (${metaInfo})`
+        : `- ⏳ ${s.title} (${metaInfo}, not created)`;
+    })
+    .join("\n");
+
+  switch (manifest.status) {
+    case "complete":
+      return `✅ **Created ${created.length} subtask(s):**\n\n${lines}`;
+    case "in-progress":
+      return `⏳ **Creating subtasks (${created.length} of ${manifest.subtasks.length}):**\n\n${lines}`;
+    case "partial":
+      return (
+        `⚠️ **Created ${created.length} of ${manifest.subtasks.length} subtask(s):**\n\n${lines}\n\n` +
+        `Creating the rest failed (${manifest.error}). Add the \`needs-triage\` label to try again; ` +
+        `subtasks that already exist are not created twice.`
+      );
+    case "rolled-back":
+      return (
+        `↩️ **Subtask creation rolled back:**\n\n${lines}\n\n` +
+        `Creating the subtasks failed (${manifest.error}), so the ones created were closed. ` +
+        `Add the \`needs-triage\` label to try again.`
+      );
+  }
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, " ");
+}
@@ -1,309 +1,420 @@
 /**
  * Multi-provider AI model support
- * Supports GitHub Models, Anthropic, and OpenAI
+ *
+ * Providers are looked up in a registry by name. Built-in adapters cover
+ * GitHub Models, Anthropic, OpenAI, Azure OpenAI, any OpenAI-compatible
+ * server and Ollama; additional adapters can be added with registerProvider().
  */
 
 import * as core from "@actions/core";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  fetchWithRetry,
+  HttpError,
+  isRetryableError,
+  RetryOptions,
+} from "./http";
+import { BUILT_IN_PROVIDERS } from "./providers";
+import { ModelUsage } from "./types";
+import { estimateTokens } from "./tokens";
+import { Transport } from "./transport";
 
-export type ModelProvider = "github" | "anthropic" | "openai";
+/**
+ * How a model can be asked for structured output
+ * - schema: native schema-constrained output (tool use / json_schema)
+ * - json: JSON mode without a schema
+ * - none: plain text, the caller strips markdown fences
+ */
+export type StructuredOutputMode = "schema" | "json" | "none";
 
 export interface ModelConfig {
-  provider: ModelProvider;
+  /** Registered provider name */
+  provider: string;
   model: string;
   apiKey?: string;
+  /** Base URL of the provider's API, without a trailing slash */
+  baseUrl: string;
+  structuredOutput: StructuredOutputMode;
+
+  /** HTTP transport; fetch() when not set */
+  transport?: Transport;
 }
 
 /**
- * Detect model provider from model name
+ * A conversation turn sent to the model
  */
-export function detectProvider(modelName: string): ModelProvider {
-  const normalized = modelName.toLowerCase();
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
 
-  // Claude models → Anthropic
-  if (normalized.startsWith("claude-")) {
-    return "anthropic";
-  }
+/**
+ * Structured output requested from the model
+ */
+export interface StructuredOutput {
+  /** Name of the tool / schema (letters, digits, underscores) */
+  name: string;
 
-  // GPT models → OpenAI
-  if (normalized.startsWith("gpt-") || normalized.startsWith("o1-")) {
-    return "openai";
-  }
+  /** What the output represents */
+  description: string;
 
-  // Default to GitHub Models (handles xai/*, meta-llama/*, etc.)
-  return "github";
+  /** JSON Schema the output must match */
+  schema: Record<string, unknown>;
 }
 
 /**
- * Get model configuration with validation
+ * Credentials available to providers, from the action inputs
  */
-export function getModelConfig(
-  model: string,
-  anthropicKey: string,
-  openaiKey: string,
-): ModelConfig {
-  const provider = detectProvider(model);
+export interface ProviderKeys {
+  /** anthropic-api-key */
+  anthropic: string;
 
-  const config: ModelConfig = {
-    provider,
-    model,
-  };
+  /** openai-api-key */
+  openai: string;
 
-  // Validate API keys for providers that need them
-  if (provider === "anthropic") {
-    if (!anthropicKey) {
-      throw new Error(
-        `Model '${model}' requires an Anthropic API key. ` +
-          `Please provide 'anthropic-api-key' input. ` +
-          `Get your API key at: https://console.anthropic.com/`,
-      );
-    }
-    config.apiKey = anthropicKey;
-  } else if (provider === "openai") {
-    if (!openaiKey) {
-      throw new Error(
-        `Model '${model}' requires an OpenAI API key. ` +
-          `Please provide 'openai-api-key' input. ` +
-          `Get your API key at: https://platform.openai.com/api-keys`,
-      );
-    }
-    config.apiKey = openaiKey;
-  }
+  /** token (GitHub Models) */
+  github: string;
 
-  core.info(`Using ${provider} provider for model: ${model}`);
-  return config;
+  /** api-key, for providers selected explicitly */
+  generic: string;
 }
 
 /**
- * Call the appropriate AI model based on provider
+ * A single model call, as seen by a provider adapter
  */
-export async function callModel(
-  config: ModelConfig,
-  systemPrompt: string,
-  userPrompt: string,
-  githubToken?: string,
-): Promise<string> {
-  switch (config.provider) {
-    case "anthropic":
-      return callAnthropicAPI(
-        config.model,
-        config.apiKey!,
-        systemPrompt,
-        userPrompt,
-      );
-    case "openai":
-      return callOpenAIAPI(
-        config.model,
-        config.apiKey!,
-        systemPrompt,
-        userPrompt,
-      );
-    case "github":
-      return callGitHubModels(
-        config.model,
-        githubToken!,
-        systemPrompt,
-        userPrompt,
-      );
-    default:
-      throw new Error(`Unknown provider: ${config.provider}`);
-  }
+export interface ProviderCall {
+  systemPrompt: string;
+  messages: ChatMessage[];
+  mode: StructuredOutputMode;
+  output?: StructuredOutput;
+
+  /** Most tokens the model may generate */
+  maxTokens: number;
 }
 
 /**
- * Call Anthropic API (for Claude models)
+ * HTTP request produced by a provider adapter (always a JSON POST)
  */
-async function callAnthropicAPI(
-  model: string,
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-): Promise<string> {
-  core.debug("Calling Anthropic API...");
-
-  const endpoint = "https://api.anthropic.com/v1/messages";
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
 
-  const body = {
-    model,
-    max_tokens: 2000,
-    system: systemPrompt,
-    messages: [
-      {
-        role: "user",
-        content: userPrompt,
-      },
-    ],
-    temperature: 0.3,
+/**
+ * A model provider: how to build its requests and parse its responses
+ */
+export interface ProviderAdapter {
+  /** Name used in the `provider` input */
+  name: string;
+
+  /** Human-readable name for logs and errors */
+  label: string;
+
+  /** Base URL used when `base-url` is not set; required otherwise */
+  defaultBaseUrl?: string;
+
+  /** Which credential the provider uses, if any */
+  apiKey?: {
+    key: keyof ProviderKeys;
+    input: string;
+    optional?: boolean;
+    helpUrl?: string;
   };
 
-  try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
+  /** Whether a model name belongs to this provider when auto-detecting */
+  matches?: (model: string) => boolean;
 
-    const result = (await response.json()) as any;
+  /** Which structured output mechanism the model supports */
+  structuredOutput: (model: string) => StructuredOutputMode;
 
-    if (!result.content || result.content.length === 0) {
-      throw new Error("No response from Anthropic API");
-    }
+  buildRequest: (config: ModelConfig, call: ProviderCall) => ProviderRequest;
 
-    if (!result.content[0] || !result.content[0].text) {
-      throw new Error("Invalid response structure from Anthropic API");
-    }
+  /** Extract the completion text (or JSON document) from the response */
+  parseResponse: (result: any, call: ProviderCall) => string;
 
-    const content = result.content[0].text;
-    core.debug(`Anthropic response: ${content}`);
+  /** Extract token counts from the response, when the API reports them */
+  parseUsage?: (
+    result: any,
+  ) => { inputTokens: number; outputTokens: number } | undefined;
+}
 
-    return content;
-  } catch (error: any) {
-    core.error(`Anthropic API error: ${error.message}`);
-    throw new Error(`Failed to call Anthropic API: ${error.message}`);
-  }
+/**
+ * Completion returned by a model call
+ */
+export interface ModelResponse {
+  content: string;
+  usage: ModelUsage;
 }
 
 /**
- * Call OpenAI API (for GPT models)
+ * Explicit provider selection from the action inputs
  */
-async function callOpenAIAPI(
-  model: string,
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-): Promise<string> {
-  core.debug("Calling OpenAI API...");
+export interface ProviderOptions {
+  /** Provider name; auto-detected from the model name when empty */
+  provider: string;
 
-  const endpoint = "https://api.openai.com/v1/chat/completions";
+  /** Overrides the provider's default base URL when set */
+  baseUrl: string;
 
-  const body = {
-    model,
-    messages: [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-      {
-        role: "user",
-        content: userPrompt,
-      },
-    ],
-    temperature: 0.3,
-    max_tokens: 2000,
-  };
+  keys: ProviderKeys;
 
-  try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
+  /** HTTP transport for model calls (record/replay); fetch() when not set */
+  transport?: Transport;
+}
 
-    const result = (await response.json()) as any;
+/** Response token limit when the caller does not size it */
+const DEFAULT_MAX_TOKENS = 2000;
 
-    if (!result.choices || result.choices.length === 0) {
-      throw new Error("No response from OpenAI API");
-    }
+/** Provider used when no adapter claims a model name */
+const DEFAULT_PROVIDER = "github";
 
-    if (
-      !result.choices[0] ||
-      !result.choices[0].message ||
-      !result.choices[0].message.content
-    ) {
-      throw new Error("Invalid response structure from OpenAI API");
-    }
+const registry = new Map<string, ProviderAdapter>();
 
-    const content = result.choices[0].message.content;
-    core.debug(`OpenAI response: ${content}`);
+/**
+ * Register a provider adapter, replacing any adapter with the same name
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+  registry.set(adapter.name, adapter);
+}
 
-    return content;
-  } catch (error: any) {
-    core.error(`OpenAI API error: ${error.message}`);
-    throw new Error(`Failed to call OpenAI API: ${error.message}`);
+/**
+ * Look up a registered provider adapter by name
+ */
+export function getProvider(name: string): ProviderAdapter {
+  const adapter = registry.get(name);
+  if (!adapter) {
+    throw new Error(
+      `Unknown provider '${name}'. Available providers: ${Array.from(registry.keys()).join(", ")}`,
+    );
+  }
+  return adapter;
+}
+
+for (const adapter of BUILT_IN_PROVIDERS) {
+  registerProvider(adapter);
+}
+
+/**
+ * Detect model provider from model name
+ *
+ * Only used when no provider is selected explicitly.
+ */
+export function detectProvider(modelName: string): string {
+  for (const adapter of registry.values()) {
+    if (adapter.matches?.(modelName)) {
+      return adapter.name;
+    }
   }
+
+  // Default to GitHub Models (handles xai/*, meta-llama/*, etc.)
+  return DEFAULT_PROVIDER;
 }
 
 /**
- * Call GitHub Models API (for Grok and other free models)
+ * Get model configuration with validation
  */
-async function callGitHubModels(
+export function getModelConfig(
   model: string,
-  githubToken: string,
-  systemPrompt: string,
-  userPrompt: string,
-): Promise<string> {
-  core.debug("Calling GitHub Models API...");
-
-  const endpoint = "https://models.github.ai/inference/chat/completions";
-
-  const body = {
-    messages: [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-      {
-        role: "user",
-        content: userPrompt,
-      },
-    ],
+  options: ProviderOptions,
+): ModelConfig {
+  const adapter = getProvider(options.provider || detectProvider(model));
+
+  const baseUrl = (options.baseUrl || adapter.defaultBaseUrl)?.replace(
+    /\/+$/,
+    "",
+  );
+  if (!baseUrl) {
+    throw new Error(
+      `Provider '${adapter.name}' requires a 'base-url' input for model '${model}'`,
+    );
+  }
+
+  const config: ModelConfig = {
+    provider: adapter.name,
     model,
-    temperature: 0.3,
-    max_tokens: 2000,
+    baseUrl,
+    structuredOutput: adapter.structuredOutput(model),
+    transport: options.transport,
   };
 
-  try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${githubToken}`,
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
+  // Validate API keys for providers that need them
+  if (adapter.apiKey) {
+    const { key, input, optional, helpUrl } = adapter.apiKey;
+    const apiKey = options.keys[key] || options.keys.generic;
+
+    if (!apiKey && !optional) {
+      const help = helpUrl ? ` Get your API key at: ${helpUrl}` : "";
+      throw new Error(
+        `Model '${model}' requires an API key for ${adapter.label}. ` +
+          `Please provide '${input}' input.${help}`,
+      );
     }
+    config.apiKey = apiKey || undefined;
+  }
 
-    const result = (await response.json()) as any;
+  core.info(
+    `Using ${adapter.name} provider for model: ${model} (structured output: ${config.structuredOutput})`,
+  );
+  return config;
+}
 
-    if (!result.choices || result.choices.length === 0) {
-      throw new Error("No response from GitHub Models API");
-    }
+/**
+ * Parse the `models` input: an ordered, comma- or newline-separated list
+ */
+export function parseModelList(input: string): string[] {
+  return input
+    .split(/[,\n]/)
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0);
+}
 
-    if (
-      !result.choices[0] ||
-      !result.choices[0].message ||
-      !result.choices[0].message.content
-    ) {
-      throw new Error("Invalid response structure from GitHub Models API");
+/**
+ * Call each model in order until one succeeds
+ *
+ * A model is skipped in favour of the next one only when it keeps failing
+ * with a rate limit, overload or timeout after its retries are exhausted;
+ * any other error (bad request, invalid key) is thrown immediately.
+ */
+export async function callModelWithFallback(
+  configs: ModelConfig[],
+  systemPrompt: string,
+  messages: ChatMessage[],
+  output?: StructuredOutput,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  maxTokens = DEFAULT_MAX_TOKENS,
+): Promise<ModelResponse> {
+  for (const [i, config] of configs.entries()) {
+    try {
+      return await callModel(
+        config,
+        systemPrompt,
+        messages,
+        output,
+        retry,
+        maxTokens,
+      );
+    } catch (error) {
+      const next = configs[i + 1];
+      if (!next || !isRetryableError(error)) {
+        throw error;
+      }
+      core.warning(
+        `${config.model} is unavailable, falling back to ${next.model}`,
+      );
     }
+  }
 
-    const content = result.choices[0].message.content;
-    core.debug(`GitHub Models response: ${content}`);
+  throw new Error("No models configured");
+}
 
-    return content;
+/**
+ * Call a model through its provider adapter
+ *
+ * When `output` is given and the model supports it, the provider's native
+ * structured output is requested and the returned string is the JSON
+ * document. Otherwise the raw text completion is returned. Servers that
+ * reject `response_format` are retried once without it.
+ *
+ * Token usage is taken from the response; when the API does not report it,
+ * it is estimated from the text.
+ */
+export async function callModel(
+  config: ModelConfig,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  output?: StructuredOutput,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  maxTokens = DEFAULT_MAX_TOKENS,
+): Promise<ModelResponse> {
+  const adapter = getProvider(config.provider);
+  const call: ProviderCall = {
+    systemPrompt,
+    messages,
+    mode: output ? config.structuredOutput : "none",
+    output,
+    maxTokens,
+  };
+
+  core.debug(`Calling ${adapter.label}...`);
+  const startedAt = Date.now();
+
+  try {
+    let result: any;
+    try {
+      result = await send(
+        adapter.buildRequest(config, call),
+        retry,
+        config.transport,
+      );
+    } catch (error) {
+      if (
+        call.mode === "none" ||
+        !(error instanceof HttpError) ||
+        error.status !== 400 ||
+        !error.message.includes("response_format")
+      ) {
+        throw error;
+      }
+
+      core.warning(
+        `Model ${config.model} does not support structured output, retrying without it`,
+      );
+      call.mode = "none";
+      result = await send(
+        adapter.buildRequest(config, call),
+        retry,
+        config.transport,
+      );
+    }
+
+    const content = adapter.parseResponse(result, call);
+    core.debug(`${adapter.label} response: ${content}`);
+
+    const reported = adapter.parseUsage?.(result);
+    const usage: ModelUsage = {
+      provider: config.provider,
+      model: config.model,
+      inputTokens:
+        reported?.inputTokens ??
+        estimateTokens(
+          systemPrompt + messages.map((m) => m.content).join("\n"),
+        ),
+      outputTokens: reported?.outputTokens ?? estimateTokens(content),
+      estimated: !reported,
+      latencyMs: Date.now() - startedAt,
+      timestamp: new Date().toISOString(),
+    };
+
+    return { content, usage };
   } catch (error: any) {
-    core.error(`GitHub Models API error: ${error.message}`);
-    throw new Error(`Failed to call GitHub Models API: ${error.message}`);
+    core.error(`${adapter.label} error: ${error.message}`);
+    throw new HttpError(
+      `Failed to call ${adapter.label}: ${error.message}`,
+      error.status,
+      isRetryableError(error),
+    );
   }
 }
+
+/**
+ * POST a provider request and return the parsed JSON response
+ */
+async function send(
+  request: ProviderRequest,
+  retry: RetryOptions,
+  transport?: Transport,
+): Promise<unknown> {
+  const response = await fetchWithRetry(
+    request.url,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...request.headers },
+      body: JSON.stringify(request.body),
+    },
+    retry,
+    transport,
+  );
+
+  return response.json();
+}
@@ -0,0 +1,116 @@
+/**
+ * Dry-run support: record intended GitHub mutations instead of making them
+ */
+
+import * as core from "@actions/core";
+import { ActionContext, PlannedOperation, TriageAnalysis } from "./types";
+
+/**
+ * Run a mutating GitHub call, or record it in the plan when dry-running
+ *
+ * In dry-run mode `action` is never called and `dryRunResult` is returned
+ * instead, so callers can carry on building the rest of the plan.
+ */
+export async function perform<T>(
+  ctx: ActionContext,
+  operation: PlannedOperation,
+  action: () => Promise<T>,
+  dryRunResult: T,
+): Promise<T> {
+  if (!ctx.dryRun) {
+    return action();
+  }
+
+  ctx.plan.push(operation);
+  core.info(`[dry-run] ${operation.description}`);
+  return dryRunResult;
+}
+
+/**
+ * Placeholder number for the n-th issue a dry run would create
+ *
+ * Placeholders are negative so they can never collide with real issues.
+ */
+export function plannedIssueNumber(index: number): number {
+  return -(index + 1);
+}
+
+/**
+ * Format an issue reference, naming planned issues explicitly
+ */
+export function issueRef(issueNumber: number): string {
+  return issueNumber > 0 ? `#${issueNumber}` : `(new subtask ${-issueNumber})`;
+}
+
+/**
+ * The analysis of one issue and the operations a dry run recorded for it
+ */
+export interface IssuePlan {
+  issue: number;
+  analysis: TriageAnalysis;
+  operations: PlannedOperation[];
+}
+
+/**
+ * Publish the plan as the `plan` output and in the job summary
+ */
+export async function writePlan(
+  ctx: ActionContext,
+  analysis: TriageAnalysis,
+): Promise<void> {
+  const plan = { issue: ctx.issueNumber, analysis, operations: ctx.plan };
+  core.setOutput("plan", JSON.stringify(plan));
+  await addPlanSummary(plan).write();
+
+  core.info(`✅ Dry run complete: ${ctx.plan.length} planned operation(s)`);
+}
+
+/**
+ * Publish the plans of a batch as the `plan` output, a JSON array, and in
+ * the job summary
+ */
+export async function writeBatchPlan(plans: IssuePlan[]): Promise<void> {
+  core.setOutput("plan", JSON.stringify(plans));
+  for (const plan of plans) {
+    addPlanSummary(plan);
+  }
+  await core.summary.write();
+
+  const count = plans.reduce((sum, p) => sum + p.operations.length, 0);
+  core.info(
+    `✅ Dry run complete: ${count} planned operation(s) on ${plans.length} issue(s)`,
+  );
+}
+
+/**
+ * Add the plan of one issue to the job summary
+ */
+function addPlanSummary(plan: IssuePlan): typeof core.summary {
+  const { analysis, operations } = plan;
+  return core.summary
+    .addHeading(`AI Triage plan for #${plan.issue}`)
+    .addRaw(
+      `Dry run: ${operations.length} operation(s) would be performed. ` +
+        `Priority ${analysis.priority}, size ${analysis.size}, ` +
+        `agent ready: ${analysis.is_agent_ready}.`,
+      true,
+    )
+    .addTable([
+      [
+        { data: "#", header: true },
+        { data: "Operation", header: true },
+        { data: "Target", header: true },
+        { data: "Description", header: true },
+      ],
+      ...operations.map((op, i) => [
+        String(i + 1),
+        op.type,
+        op.target,
+        op.description,
+      ]),
+    ])
+    .addDetails(
+      "Analysis",
+      `\n\n\`\`\`json\n${JSON.stringify(analysis, null, 2)}\n\`\`\`\n\n`,
+    );
+}
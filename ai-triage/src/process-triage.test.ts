@@ -0,0 +1,27 @@
+import { removeTriageLabel } from "./process-triage";
+import { ActionContext } from "./types";
+
+describe("removeTriageLabel", () => {
+  it("plans to remove only the labels the issue has", async () => {
+    const ctx = {
+      owner: "acme",
+      repo: "widgets",
+      issueNumber: 7,
+      issue: {
+        number: 7,
+        title: "Crash on save",
+        body: "",
+        node_id: "I_7",
+        labels: ["needs-triage", "type:bug"],
+      },
+      dryRun: true,
+      plan: [],
+    } as unknown as ActionContext;
+
+    await removeTriageLabel(ctx);
+
+    expect(ctx.plan.map((op) => op.description)).toEqual([
+      "Remove needs-triage label",
+    ]);
+  });
+});
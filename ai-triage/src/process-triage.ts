@@ -3,8 +3,54 @@
  */
 
 import * as core from "@actions/core";
-import { ActionContext, TriageAnalysis } from "./types";
+import {
+  ActionContext,
+  ProjectConfig,
+  RelatedIssue,
+  TriageAnalysis,
+} from "./types";
 import { createSubtasks, postSubtaskFeedback } from "./subtasks";
+import { addSubtasksToProject } from "./update-project";
+import { perform } from "./plan";
+import { CommentState, upsertComment } from "./comments";
+import { LabelTaxonomy, resolveLabels } from "./labels";
+import { NEEDS_HUMAN_LABEL } from "./safety";
+import { DEFERRED_LABEL } from "./budget";
+import {
+  buildEnhancedBody,
+  extractOriginalBody,
+  hasEnhancedSection,
+} from "./description";
+
+/**
+ * How an enhanced description is delivered
+ * - append: rebuild the issue body with the original collapsed and the
+ *   enhancement in a marked section below it
+ * - comment: leave the body alone and post the enhancement as a suggestion
+ */
+export type DescriptionMode = "append" | "comment";
+
+/**
+ * Options controlling how the analysis is applied to the issue
+ */
+export interface ProcessOptions {
+  descriptionMode: DescriptionMode;
+
+  /** Labels the model may apply */
+  labels: LabelTaxonomy;
+
+  /** Candidate related issues shown to the model */
+  relatedIssues: RelatedIssue[];
+
+  /** Close issues confirmed as duplicates */
+  closeDuplicates: boolean;
+
+  /** Close the subtasks created in a run when creating the rest fails */
+  rollbackSubtasks: boolean;
+
+  /** Project the created subtasks are added to */
+  projectConfig?: ProjectConfig;
+}
 
 /**
  * Process the AI triage analysis and update the issue accordingly
@@ -12,6 +58,7 @@ import { createSubtasks, postSubtaskFeedback } from "./subtasks";
 export async function processTriageAnalysis(
   ctx: ActionContext,
   analysis: TriageAnalysis,
+  options: ProcessOptions,
 ): Promise<void> {
   core.info("Processing triage analysis...");
   core.info(`Agent ready: ${analysis.is_agent_ready}`);
@@ -19,32 +66,81 @@ export async function processTriageAnalysis(
   core.info(`Size: ${analysis.size}`);
   core.info(`Needs subtasks: ${analysis.needs_subtasks}`);
 
+  checkRelatedIssues(ctx, analysis, options.relatedIssues);
+
   // 1. Apply labels
-  await applyLabels(ctx, analysis);
+  await applyLabels(ctx, analysis, options.labels);
+
+  // Duplicates are not triaged any further
+  if (analysis.duplicate_of) {
+    await handleDuplicate(ctx, analysis, options);
+    await removeTriageLabel(ctx);
+    await removeLabel(ctx, NEEDS_HUMAN_LABEL);
+    core.info("✅ Triage processing complete");
+    return;
+  }
 
   // 2. Handle subtasks
-  await handleSubtasks(ctx, analysis);
+  await handleSubtasks(ctx, analysis, options);
 
   // 3. Handle agent readiness
   if (!analysis.is_agent_ready) {
-    await handleNotAgentReady(ctx, analysis);
+    await handleNotAgentReady(ctx, analysis, options);
   } else {
     await handleAgentReady(ctx, analysis);
   }
 
-  // 4. Remove needs-triage label if present
+  // 4. Remove needs-triage (and triage:deferred) labels if present, and
+  // the hold of an earlier triage that needed a human
   await removeTriageLabel(ctx);
+  await removeLabel(ctx, NEEDS_HUMAN_LABEL);
 
   core.info("✅ Triage processing complete");
 }
 
+/**
+ * Hold an issue for a human instead of applying the analysis
+ *
+ * Used when the issue looks like a prompt injection attempt or the analysis
+ * breaks the output policy. The findings are posted so a maintainer knows
+ * what to check; nothing the model wrote is repeated.
+ */
+export async function holdForReview(
+  ctx: ActionContext,
+  findings: string[],
+): Promise<void> {
+  core.warning(
+    `Holding #${ctx.issueNumber} for human review:\n${findings.join("\n")}`,
+  );
+
+  await addLabels(ctx, [NEEDS_HUMAN_LABEL]);
+
+  const body =
+    `🛡️ **AI Triage: Needs Human Review**\n\n` +
+    `The automatic triage was not applied because:\n\n` +
+    `${findings.map((f) => `- ${f}`).join("\n")}\n\n` +
+    `A maintainer should triage this issue manually, or address the findings ` +
+    `and add the \`needs-triage\` label to run the triage again.`;
+  await upsertComment(ctx, ctx.issueNumber, "review", body, {
+    Findings: String(findings.length),
+  });
+
+  await removeTriageLabel(ctx);
+}
+
 /**
  * Apply labels to the issue
+ *
+ * The analysis is updated to the labels actually applied after mapping
+ * them onto the taxonomy.
  */
 async function applyLabels(
   ctx: ActionContext,
   analysis: TriageAnalysis,
+  taxonomy: LabelTaxonomy,
 ): Promise<void> {
+  analysis.labels = await resolveLabels(ctx, taxonomy, analysis.labels);
+
   if (analysis.labels.length === 0) {
     core.info("No labels to apply");
     return;
@@ -52,12 +148,89 @@ async function applyLabels(
 
   core.info(`Applying labels: ${analysis.labels.join(", ")}`);
 
-  await ctx.octokit.rest.issues.addLabels({
-    owner: ctx.owner,
-    repo: ctx.repo,
-    issue_number: ctx.issueNumber,
-    labels: analysis.labels,
+  await addLabels(ctx, analysis.labels);
+}
+
+/**
+ * Drop related and duplicate issues the model did not get from the candidates
+ *
+ * Issues referenced in the issue body are kept as related issues.
+ */
+function checkRelatedIssues(
+  ctx: ActionContext,
+  analysis: TriageAnalysis,
+  candidates: RelatedIssue[],
+): void {
+  const known = new Set(candidates.map((c) => c.number));
+  const referenced = new Set(ctx.issue.body.match(/#\d+\b/g));
+
+  analysis.related_issues = analysis.related_issues.filter((n) => {
+    const keep = known.has(n) || referenced.has(`#${n}`);
+    if (!keep) {
+      core.warning(`Ignoring related issue #${n}: not a search candidate`);
+    }
+    return keep;
+  });
+
+  if (analysis.duplicate_of && !known.has(analysis.duplicate_of)) {
+    core.warning(
+      `Ignoring duplicate_of #${analysis.duplicate_of}: not a search candidate`,
+    );
+    analysis.duplicate_of = null;
+  }
+  analysis.duplicate_of = analysis.duplicate_of ?? null;
+}
+
+/**
+ * Mark the issue as a duplicate, link the original and optionally close it
+ */
+async function handleDuplicate(
+  ctx: ActionContext,
+  analysis: TriageAnalysis,
+  options: ProcessOptions,
+): Promise<void> {
+  const original = options.relatedIssues.find(
+    (c) => c.number === analysis.duplicate_of,
+  )!;
+  core.info(`Issue is a duplicate of #${original.number}`);
+
+  await addLabels(ctx, ["duplicate"]);
+
+  const closing = options.closeDuplicates
+    ? "Closing this issue in favour of the original. "
+    : "";
+  const body =
+    `🔁 **AI Triage: Possible Duplicate**\n\n` +
+    `This issue appears to duplicate #${original.number} (${original.title}). ` +
+    `${closing}Please continue the discussion there, or remove the \`duplicate\` ` +
+    `label and add \`needs-triage\` if this is a different problem.\n\n` +
+    `**Reasoning:** ${analysis.reasoning}`;
+
+  await upsertComment(ctx, ctx.issueNumber, "duplicate", body, {
+    "Duplicate of": `#${original.number}`,
   });
+
+  if (options.closeDuplicates) {
+    await perform(
+      ctx,
+      {
+        type: "close-issue",
+        target: `#${ctx.issueNumber}`,
+        description: `Close #${ctx.issueNumber} as a duplicate of #${original.number}`,
+        details: { state_reason: "not_planned" },
+      },
+      () =>
+        ctx.octokit.rest.issues.update({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          issue_number: ctx.issueNumber,
+          state: "closed",
+          state_reason: "not_planned",
+        }),
+      undefined,
+    );
+    core.info("Closed duplicate issue");
+  }
 }
 
 /**
@@ -66,6 +239,7 @@ async function applyLabels(
 async function handleNotAgentReady(
   ctx: ActionContext,
   analysis: TriageAnalysis,
+  options: ProcessOptions,
 ): Promise<void> {
   core.info("Issue is not agent-ready");
 
@@ -85,39 +259,112 @@ async function handleNotAgentReady(
       `**Reasoning:** ${analysis.reasoning}\n\n` +
       `Once you've provided these details, add the \`needs-triage\` label again to re-run the analysis.`;
 
-    await ctx.octokit.rest.issues.createComment({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      issue_number: ctx.issueNumber,
+    await upsertComment(
+      ctx,
+      ctx.issueNumber,
+      "status",
       body,
-    });
+      triageState(analysis),
+    );
 
     core.info("Posted clarifying questions");
   }
 
-  // If we have an enhanced description, update the issue body
+  // If we have an enhanced description, add it without losing the original
   if (analysis.enhanced_description) {
-    await ctx.octokit.rest.issues.update({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      issue_number: ctx.issueNumber,
-      body: analysis.enhanced_description,
-    });
+    if (options.descriptionMode === "comment") {
+      await suggestDescription(ctx, analysis, analysis.enhanced_description);
+    } else {
+      await appendDescription(ctx, analysis, analysis.enhanced_description);
+    }
+  }
+}
 
-    const body =
-      `🤖 **AI Triage: Description Enhanced**\n\n` +
-      `The issue description has been enhanced to be more specific and actionable.\n\n` +
-      `**Reasoning:** ${analysis.reasoning}`;
-
-    await ctx.octokit.rest.issues.createComment({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      issue_number: ctx.issueNumber,
-      body,
-    });
+/**
+ * Rebuild the issue body with the enhancement in its own marked section
+ *
+ * The body is re-read so edits made since the event fired are not lost.
+ */
+async function appendDescription(
+  ctx: ActionContext,
+  analysis: TriageAnalysis,
+  enhancedDescription: string,
+): Promise<void> {
+  const { data: issue } = await ctx.octokit.rest.issues.get({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    issue_number: ctx.issueNumber,
+  });
+  const currentBody = issue.body || "";
+  const replacing = hasEnhancedSection(currentBody);
+  const body = buildEnhancedBody(
+    currentBody,
+    enhancedDescription,
+    issue.user?.login,
+  );
 
-    core.info("Enhanced issue description");
-  }
+  await perform(
+    ctx,
+    {
+      type: "update-issue",
+      target: `#${ctx.issueNumber}`,
+      description: replacing
+        ? "Replace AI-enhanced section of issue body"
+        : "Add AI-enhanced section to issue body",
+      details: { body },
+    },
+    () =>
+      ctx.octokit.rest.issues.update({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        issue_number: ctx.issueNumber,
+        body,
+      }),
+    undefined,
+  );
+
+  const comment =
+    `🤖 **AI Triage: Description Enhanced**\n\n` +
+    `An enhanced, more specific description has been added to the issue. ` +
+    `The original description is preserved in a collapsible block above it.\n\n` +
+    `**Reasoning:** ${analysis.reasoning}`;
+
+  await upsertComment(ctx, ctx.issueNumber, "description", comment, {
+    Description: "Enhanced in issue body",
+  });
+
+  core.info(
+    replacing
+      ? "Replaced previous AI-enhanced description"
+      : "Enhanced issue description",
+  );
+}
+
+/**
+ * Post the enhancement as a suggested edit instead of changing the body
+ */
+async function suggestDescription(
+  ctx: ActionContext,
+  analysis: TriageAnalysis,
+  enhancedDescription: string,
+): Promise<void> {
+  const original = extractOriginalBody(ctx.issue.body);
+  const originalBlock = original
+    ? `<details>\n<summary>Current description</summary>\n\n${original}\n\n</details>\n\n`
+    : "";
+
+  const comment =
+    `🤖 **AI Triage: Suggested Description**\n\n` +
+    `This issue could be more specific and actionable. ` +
+    `Consider updating the description along these lines:\n\n` +
+    `${enhancedDescription}\n\n${originalBlock}` +
+    `**Reasoning:** ${analysis.reasoning}`;
+
+  await upsertComment(ctx, ctx.issueNumber, "description", comment, {
+    Description: "Suggested in comment",
+  });
+
+  core.info("Posted suggested description");
 }
 
 /**
@@ -130,12 +377,7 @@ async function handleAgentReady(
   core.info("Issue is agent-ready");
 
   // Add ready-for-review label
-  await ctx.octokit.rest.issues.addLabels({
-    owner: ctx.owner,
-    repo: ctx.repo,
-    issue_number: ctx.issueNumber,
-    labels: ["status:ready-for-review"],
-  });
+  await addLabels(ctx, ["status:ready-for-review"]);
 
   // Create summary comment
   const relatedIssues =
@@ -149,12 +391,13 @@ async function handleAgentReady(
 
   const body = `✅ **AI Triage: Agent Ready**\n\nThis issue is well-defined and ready for implementation.\n\n**Priority:** ${analysis.priority}\n**Size Estimate:** ${analysis.size}\n**Labels Applied:** ${analysis.labels.join(", ")}\n${relatedIssues}${suggestedAssignee}\n**Reasoning:** ${analysis.reasoning}`;
 
-  await ctx.octokit.rest.issues.createComment({
-    owner: ctx.owner,
-    repo: ctx.repo,
-    issue_number: ctx.issueNumber,
+  await upsertComment(
+    ctx,
+    ctx.issueNumber,
+    "status",
     body,
-  });
+    triageState(analysis),
+  );
 
   core.info("Marked issue as agent-ready");
 }
@@ -165,22 +408,41 @@ async function handleAgentReady(
 async function handleSubtasks(
   ctx: ActionContext,
   analysis: TriageAnalysis,
+  options: ProcessOptions,
 ): Promise<void> {
   // Create new subtasks if needed
   if (analysis.needs_subtasks && analysis.subtasks_to_create.length > 0) {
+    for (const subtask of analysis.subtasks_to_create) {
+      subtask.labels = await resolveLabels(ctx, options.labels, subtask.labels);
+    }
+
     core.info(`Creating ${analysis.subtasks_to_create.length} new subtasks...`);
     const createdIssues = await createSubtasks(
       ctx,
       analysis.subtasks_to_create,
+      { rollback: options.rollbackSubtasks },
     );
     if (createdIssues.length !== analysis.subtasks_to_create.length) {
       core.warning(
-        `⚠️ Only ${createdIssues.length} out of ${analysis.subtasks_to_create.length} subtasks were created. Some subtasks may have failed to create.`,
+        `⚠️ Only ${createdIssues.length} out of ${analysis.subtasks_to_create.length} subtasks exist. The rest will be created when the issue is triaged again.`,
       );
     }
     core.info(
-      `✅ Created ${createdIssues.length} subtasks (requested: ${analysis.subtasks_to_create.length})`,
+      `✅ ${createdIssues.length} subtasks in place (requested: ${analysis.subtasks_to_create.length})`,
     );
+
+    // Reused subtasks keep their board fields, which people may have edited
+    if (options.projectConfig) {
+      try {
+        await addSubtasksToProject(
+          ctx,
+          createdIssues.filter((s) => s.isNew),
+          options.projectConfig,
+        );
+      } catch (error) {
+        core.warning(`Failed to add subtasks to the project: ${error}`);
+      }
+    }
   }
 
   // Post feedback on existing subtasks
@@ -198,19 +460,81 @@ async function handleSubtasks(
 }
 
 /**
- * Remove the needs-triage label
+ * Remove the needs-triage label, and the deferred label of an issue the
+ * budget held back earlier
+ */
+export async function removeTriageLabel(ctx: ActionContext): Promise<void> {
+  await removeLabel(ctx, "needs-triage");
+  await removeLabel(ctx, DEFERRED_LABEL);
+}
+
+/**
+ * Remove a label from the issue if it is present
  */
-async function removeTriageLabel(ctx: ActionContext): Promise<void> {
+async function removeLabel(ctx: ActionContext, name: string): Promise<void> {
+  if (ctx.issue.labels && !ctx.issue.labels.includes(name)) {
+    return;
+  }
   try {
-    await ctx.octokit.rest.issues.removeLabel({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      issue_number: ctx.issueNumber,
-      name: "needs-triage",
-    });
-    core.info("Removed needs-triage label");
+    await perform(
+      ctx,
+      {
+        type: "remove-label",
+        target: `#${ctx.issueNumber}`,
+        description: `Remove ${name} label`,
+        details: { name },
+      },
+      () =>
+        ctx.octokit.rest.issues.removeLabel({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          issue_number: ctx.issueNumber,
+          name,
+        }),
+      undefined,
+    );
+    core.info(`Removed ${name} label`);
   } catch (error) {
     // Label might not exist, ignore
-    core.debug("needs-triage label not present or already removed");
+    core.debug(`${name} label not present or already removed`);
   }
 }
+
+/**
+ * Add labels to the issue
+ */
+export async function addLabels(
+  ctx: ActionContext,
+  labels: string[],
+): Promise<void> {
+  await perform(
+    ctx,
+    {
+      type: "add-labels",
+      target: `#${ctx.issueNumber}`,
+      description: `Add labels: ${labels.join(", ")}`,
+      details: { labels },
+    },
+    () =>
+      ctx.octokit.rest.issues.addLabels({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        issue_number: ctx.issueNumber,
+        labels,
+      }),
+    undefined,
+  );
+}
+
+/**
+ * Fields compared between runs when updating the status comment
+ */
+function triageState(analysis: TriageAnalysis): CommentState {
+  return {
+    "Agent ready": analysis.is_agent_ready ? "yes" : "no",
+    Priority: analysis.priority,
+    Size: analysis.size,
+    Labels: analysis.labels.join(", "),
+    "Open questions": String(analysis.clarifying_questions.length),
+  };
+}
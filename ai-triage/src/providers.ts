@@ -0,0 +1,352 @@
+/**
+ * Built-in model provider adapters
+ *
+ * Each adapter knows how to turn a chat request into an HTTP request for its
+ * API and how to pull the completion text out of the response. Adapters are
+ * registered with the provider registry in model-providers.ts.
+ */
+
+import {
+  ProviderAdapter,
+  ProviderCall,
+  StructuredOutputMode,
+} from "./model-providers";
+
+/** Azure OpenAI API version used when the base URL does not specify one */
+const AZURE_API_VERSION = "2024-10-21";
+
+/**
+ * Anthropic Messages API (Claude models)
+ *
+ * Structured output is requested by forcing a single tool call whose input
+ * schema is the output schema; the tool input is returned as JSON.
+ */
+const anthropicProvider: ProviderAdapter = {
+  name: "anthropic",
+  label: "Anthropic API",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  apiKey: {
+    key: "anthropic",
+    input: "anthropic-api-key",
+    helpUrl: "https://console.anthropic.com/",
+  },
+  matches: (model) => model.toLowerCase().startsWith("claude-"),
+  // Tool use is available on all Claude 3+ models
+  structuredOutput: () => "schema",
+
+  buildRequest(config, call) {
+    const body: Record<string, unknown> = {
+      model: config.model,
+      max_tokens: call.maxTokens,
+      system: call.systemPrompt,
+      messages: call.messages,
+      temperature: 0.3,
+    };
+
+    if (call.mode === "schema" && call.output) {
+      body.tools = [
+        {
+          name: call.output.name,
+          description: call.output.description,
+          input_schema: call.output.schema,
+        },
+      ];
+      body.tool_choice = { type: "tool", name: call.output.name };
+    }
+
+    return {
+      url: `${config.baseUrl}/messages`,
+      headers: {
+        "x-api-key": config.apiKey!,
+        "anthropic-version": "2023-06-01",
+      },
+      body,
+    };
+  },
+
+  parseResponse(result, call) {
+    if (!result.content || result.content.length === 0) {
+      throw new Error("No response from Anthropic API");
+    }
+
+    if (call.mode === "schema" && call.output) {
+      const toolUse = result.content.find(
+        (block: any) =>
+          block.type === "tool_use" && block.name === call.output!.name,
+      );
+      if (!toolUse || typeof toolUse.input !== "object") {
+        throw new Error("Anthropic API did not return the expected tool call");
+      }
+      return JSON.stringify(toolUse.input);
+    }
+
+    if (!result.content[0] || !result.content[0].text) {
+      throw new Error("Invalid response structure from Anthropic API");
+    }
+
+    return result.content[0].text;
+  },
+
+  parseUsage: (result) =>
+    result.usage
+      ? {
+          inputTokens: result.usage.input_tokens,
+          outputTokens: result.usage.output_tokens,
+        }
+      : undefined,
+};
+
+/**
+ * OpenAI Chat Completions API (GPT and o-series models)
+ */
+const openaiProvider: ProviderAdapter = {
+  name: "openai",
+  label: "OpenAI API",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  apiKey: {
+    key: "openai",
+    input: "openai-api-key",
+    helpUrl: "https://platform.openai.com/api-keys",
+  },
+  matches: (model) => /^(gpt-|o1-)/.test(model.toLowerCase()),
+
+  structuredOutput(model) {
+    const normalized = model.toLowerCase();
+    // o1-preview and o1-mini reject response_format entirely
+    if (/^o1-(preview|mini)/.test(normalized)) {
+      return "none";
+    }
+    // Older chat models only support JSON mode
+    if (/^gpt-(3\.5|4-turbo|4-\d{4}|4$)/.test(normalized)) {
+      return "json";
+    }
+    return "schema";
+  },
+
+  buildRequest(config, call) {
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      headers: { Authorization: `Bearer ${config.apiKey}` },
+      body: buildChatCompletionBody(config.model, call),
+    };
+  },
+
+  parseResponse: (result) => parseChatCompletion(result, "OpenAI API"),
+  parseUsage: parseChatCompletionUsage,
+};
+
+/**
+ * GitHub Models inference API (Grok and other free models)
+ *
+ * Authenticates with the workflow's GitHub token.
+ */
+const githubProvider: ProviderAdapter = {
+  name: "github",
+  label: "GitHub Models API",
+  defaultBaseUrl: "https://models.github.ai/inference",
+  apiKey: { key: "github", input: "token" },
+
+  structuredOutput(model) {
+    if (/(^|\/)o1-(preview|mini)/.test(model.toLowerCase())) {
+      return "none";
+    }
+    return "json";
+  },
+
+  buildRequest(config, call) {
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+      body: buildChatCompletionBody(config.model, call),
+    };
+  },
+
+  parseResponse: (result) => parseChatCompletion(result, "GitHub Models API"),
+  parseUsage: parseChatCompletionUsage,
+};
+
+/**
+ * Azure OpenAI deployments
+ *
+ * `base-url` is the deployment URL, e.g.
+ * https://my-resource.openai.azure.com/openai/deployments/gpt-4o
+ */
+const azureOpenAIProvider: ProviderAdapter = {
+  name: "azure-openai",
+  label: "Azure OpenAI API",
+  apiKey: { key: "generic", input: "api-key" },
+  structuredOutput: () => "schema",
+
+  buildRequest(config, call) {
+    const url = `${config.baseUrl}/chat/completions`;
+    return {
+      url: config.baseUrl.includes("api-version=")
+        ? url
+        : `${url}?api-version=${AZURE_API_VERSION}`,
+      headers: { "api-key": config.apiKey! },
+      body: buildChatCompletionBody(config.model, call),
+    };
+  },
+
+  parseResponse: (result) => parseChatCompletion(result, "Azure OpenAI API"),
+  parseUsage: parseChatCompletionUsage,
+};
+
+/**
+ * Any server implementing the OpenAI Chat Completions API
+ * (vLLM, llama.cpp server, LM Studio, LiteLLM, ...)
+ *
+ * The API key is optional since local servers usually do not need one.
+ * JSON mode is requested; servers that reject it are retried without.
+ */
+const openaiCompatibleProvider: ProviderAdapter = {
+  name: "openai-compatible",
+  label: "OpenAI-compatible API",
+  apiKey: { key: "generic", input: "api-key", optional: true },
+  structuredOutput: () => "json",
+
+  buildRequest(config, call) {
+    const headers: Record<string, string> = {};
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      headers,
+      body: buildChatCompletionBody(config.model, call),
+    };
+  },
+
+  parseResponse: (result) =>
+    parseChatCompletion(result, "OpenAI-compatible API"),
+  parseUsage: parseChatCompletionUsage,
+};
+
+/**
+ * Ollama's native chat API
+ *
+ * Ollama accepts a JSON Schema in `format` for schema-constrained output.
+ */
+const ollamaProvider: ProviderAdapter = {
+  name: "ollama",
+  label: "Ollama API",
+  defaultBaseUrl: "http://localhost:11434",
+  structuredOutput: () => "schema",
+
+  buildRequest(config, call) {
+    const body: Record<string, unknown> = {
+      model: config.model,
+      messages: [
+        { role: "system", content: call.systemPrompt },
+        ...call.messages,
+      ],
+      stream: false,
+      options: { temperature: 0.3, num_predict: call.maxTokens },
+    };
+
+    if (call.mode === "schema" && call.output) {
+      body.format = call.output.schema;
+    } else if (call.mode === "json") {
+      body.format = "json";
+    }
+
+    return { url: `${config.baseUrl}/api/chat`, headers: {}, body };
+  },
+
+  parseResponse(result) {
+    if (!result.message || typeof result.message.content !== "string") {
+      throw new Error("Invalid response structure from Ollama API");
+    }
+    return result.message.content;
+  },
+
+  parseUsage: (result) =>
+    typeof result.prompt_eval_count === "number"
+      ? {
+          inputTokens: result.prompt_eval_count,
+          outputTokens: result.eval_count ?? 0,
+        }
+      : undefined,
+};
+
+export const BUILT_IN_PROVIDERS: ProviderAdapter[] = [
+  anthropicProvider,
+  openaiProvider,
+  githubProvider,
+  azureOpenAIProvider,
+  openaiCompatibleProvider,
+  ollamaProvider,
+];
+
+/**
+ * Build a Chat Completions request body, shared by OpenAI-style providers
+ */
+function buildChatCompletionBody(
+  model: string,
+  call: ProviderCall,
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model,
+    messages: [
+      { role: "system", content: call.systemPrompt },
+      ...call.messages,
+    ],
+    temperature: 0.3,
+    max_tokens: call.maxTokens,
+  };
+
+  const mode: StructuredOutputMode = call.output ? call.mode : "none";
+  if (mode === "schema") {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: call.output!.name,
+        description: call.output!.description,
+        schema: call.output!.schema,
+        strict: true,
+      },
+    };
+  } else if (mode === "json") {
+    body.response_format = { type: "json_object" };
+  }
+
+  return body;
+}
+
+/**
+ * Extract the completion text from a Chat Completions response
+ */
+function parseChatCompletion(result: any, label: string): string {
+  if (!result.choices || result.choices.length === 0) {
+    throw new Error(`No response from ${label}`);
+  }
+
+  if (
+    !result.choices[0] ||
+    !result.choices[0].message ||
+    !result.choices[0].message.content
+  ) {
+    throw new Error(`Invalid response structure from ${label}`);
+  }
+
+  return result.choices[0].message.content;
+}
+
+/**
+ * Extract token counts from a Chat Completions response
+ */
+function parseChatCompletionUsage(
+  result: any,
+): { inputTokens: number; outputTokens: number } | undefined {
+  if (!result.usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: result.usage.prompt_tokens ?? 0,
+    outputTokens: result.usage.completion_tokens ?? 0,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Sensitive-data redaction for prompts sent to model providers
+ *
+ * Issues often contain pasted logs with tokens, e-mail addresses and
+ * internal hosts. Before a prompt is built, matches of the built-in
+ * detectors and of the patterns in the repository config are replaced with
+ * placeholders such as `[REDACTED_EMAIL_1]`. The same value always gets the
+ * same placeholder, so the model can still tell values apart, and the
+ * originals are put back where the model's text is written to the issue.
+ */
+
+import * as core from "@actions/core";
+import { RedactionConfig } from "./types";
+
+/**
+ * A kind of sensitive value and how to find it
+ */
+interface Detector {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Built-in detectors, most specific first so e.g. a JWT is not partly
+ * taken for something else
+ */
+const DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "jwt",
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g,
+  },
+  {
+    name: "github-token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{60,})\b/g,
+  },
+  {
+    name: "aws-key",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: "email",
+    pattern: /\b[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "ip",
+    pattern:
+      /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+];
+
+/**
+ * Values redacted while preparing one prompt
+ *
+ * Shared by every text of the prompt so a value repeated in the body and a
+ * comment gets the same placeholder.
+ */
+export interface Redaction {
+  detectors: Detector[];
+
+  /** Original value -> placeholder */
+  placeholders: Map<string, string>;
+
+  /** Values redacted per detector, used to number placeholders */
+  counts: Map<string, number>;
+}
+
+/**
+ * Start a redaction with the built-in detectors and configured patterns
+ *
+ * When redaction is disabled no detectors are used and texts pass through.
+ */
+export function createRedaction(config: RedactionConfig): Redaction {
+  const detectors = config.enabled
+    ? [
+        ...DETECTORS,
+        ...config.patterns.map((p) => ({
+          name: p.name,
+          pattern: new RegExp(p.pattern, "g"),
+        })),
+      ]
+    : [];
+  return { detectors, placeholders: new Map(), counts: new Map() };
+}
+
+/**
+ * Replace sensitive values in a text with their placeholders
+ */
+export function redact(redaction: Redaction, text: string): string {
+  let result = text;
+  for (const detector of redaction.detectors) {
+    result = result.replace(detector.pattern, (value) =>
+      placeholderFor(redaction, detector.name, value),
+    );
+  }
+  return result;
+}
+
+/**
+ * Put the original values back in place of their placeholders
+ */
+export function restore(redaction: Redaction, text: string): string {
+  let result = text;
+  for (const [value, placeholder] of redaction.placeholders) {
+    result = result.split(placeholder).join(value);
+  }
+  return result;
+}
+
+/**
+ * Log how many values of each kind were redacted
+ */
+export function logRedaction(redaction: Redaction): void {
+  if (redaction.placeholders.size === 0) {
+    return;
+  }
+  const kinds = Array.from(redaction.counts.entries())
+    .map(([name, count]) => `${count} ${name}`)
+    .join(", ");
+  core.info(
+    `🔒 Redacted ${redaction.placeholders.size} sensitive value(s) from the prompt: ${kinds}`,
+  );
+}
+
+function placeholderFor(
+  redaction: Redaction,
+  name: string,
+  value: string,
+): string {
+  const existing = redaction.placeholders.get(value);
+  if (existing) {
+    return existing;
+  }
+
+  const count = (redaction.counts.get(name) ?? 0) + 1;
+  redaction.counts.set(name, count);
+  const placeholder = `[REDACTED_${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_${count}]`;
+  redaction.placeholders.set(value, placeholder);
+  return placeholder;
+}
@@ -0,0 +1,367 @@
+/**
+ * Find candidate related and duplicate issues
+ *
+ * Candidates come from a keyword search over open and recently closed
+ * issues and, when an index path is configured, from a local similarity
+ * index of the repository's issues. The index is a JSON file meant to be
+ * cached between workflow runs and is updated incrementally. All candidates
+ * are ranked by the same local text similarity so both sources compare.
+ */
+
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import { ActionContext, RelatedIssue } from "./types";
+
+/** Closed issues older than this are not considered */
+const RECENTLY_CLOSED_DAYS = 90;
+
+/** Candidates below this similarity are not shown to the model */
+const MIN_SCORE = 0.1;
+
+/** Keywords used in each search query (GitHub allows 5 boolean operators) */
+const MAX_KEYWORDS = 5;
+
+/** Length of each candidate's body included in the prompt */
+const SNIPPET_LENGTH = 300;
+
+/** Dimensions of the hashed term vectors */
+const VECTOR_DIMENSIONS = 256;
+
+/** Upper bound on issues fetched when building a new index */
+const MAX_INDEXED_ISSUES = 2000;
+
+const INDEX_VERSION = 1;
+
+const STOPWORDS = new Set(
+  (
+    "the and for with that this from are was were been have has had not but " +
+    "can could should would will when what which where who how why into " +
+    "onto about after before there their them they then than also just " +
+    "only some any all each more most other such very its it's use used " +
+    "using issue bug feature please add make need needs want"
+  ).split(" "),
+);
+
+/**
+ * How candidates are retrieved
+ */
+export interface RelatedIssueOptions {
+  /** Maximum number of candidates returned */
+  limit: number;
+
+  /** Path of the local similarity index; disabled when empty */
+  indexPath: string;
+}
+
+/**
+ * Entry of the local similarity index
+ */
+interface IndexedIssue {
+  title: string;
+  body: string;
+  state: string;
+  closed_at: string | null;
+  vector: number[];
+}
+
+interface SimilarityIndex {
+  version: number;
+  repository: string;
+  updated_at: string;
+  issues: Record<string, IndexedIssue>;
+}
+
+/**
+ * Find the issues most similar to the one being triaged
+ *
+ * Failures are logged and yield no candidates; triage carries on without.
+ */
+export async function findRelatedIssues(
+  ctx: ActionContext,
+  options: RelatedIssueOptions,
+  exclude: number[] = [],
+): Promise<RelatedIssue[]> {
+  const issue = ctx.issue;
+  core.info(`Searching for issues related to #${ctx.issueNumber}...`);
+  const text = `${issue.title}\n${issue.body}`;
+  const query = vectorize(text);
+  const skip = new Set([ctx.issueNumber, ...exclude]);
+  const candidates = new Map<number, RelatedIssue>();
+
+  const consider = (
+    number: number,
+    title: string,
+    body: string,
+    state: string,
+    vector: number[],
+  ): void => {
+    if (skip.has(number)) {
+      return;
+    }
+    const score = cosine(query, vector);
+    if (score >= MIN_SCORE && score > (candidates.get(number)?.score ?? -1)) {
+      candidates.set(number, {
+        number,
+        title,
+        body: snippet(body),
+        state,
+        score,
+      });
+    }
+  };
+
+  try {
+    for (const found of await searchIssues(ctx, issue.title, text)) {
+      consider(
+        found.number,
+        found.title,
+        found.body || "",
+        found.state,
+        vectorize(`${found.title}\n${found.body || ""}`),
+      );
+    }
+  } catch (error) {
+    core.warning(`Related issue search failed: ${error}`);
+  }
+
+  if (options.indexPath) {
+    try {
+      const index = await updateIndex(ctx, options.indexPath);
+      for (const [number, entry] of Object.entries(index.issues)) {
+        consider(
+          Number(number),
+          entry.title,
+          entry.body,
+          entry.state,
+          entry.vector,
+        );
+      }
+    } catch (error) {
+      core.warning(`Similarity index unavailable: ${error}`);
+    }
+  }
+
+  const related = Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+
+  core.info(
+    related.length > 0
+      ? `Found ${related.length} candidate related issue(s): ${related.map((r) => `#${r.number} (${r.score.toFixed(2)})`).join(", ")}`
+      : "No related issues found",
+  );
+  return related;
+}
+
+/**
+ * Keyword search over open and recently closed issues
+ */
+async function searchIssues(
+  ctx: ActionContext,
+  title: string,
+  text: string,
+): Promise<
+  { number: number; title: string; body?: string | null; state: string }[]
+> {
+  const terms = keywords(title, text);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const repo = `repo:${ctx.owner}/${ctx.repo} is:issue`;
+  const closedSince = daysAgo(RECENTLY_CLOSED_DAYS).slice(0, 10);
+  const match = terms.join(" OR ");
+
+  const results = [];
+  for (const scope of ["is:open", `is:closed closed:>=${closedSince}`]) {
+    const { data } = await ctx.octokit.rest.search.issuesAndPullRequests({
+      q: `${repo} ${scope} ${match}`,
+      per_page: 30,
+    });
+    results.push(...data.items.filter((item) => !item.pull_request));
+  }
+  return results;
+}
+
+/**
+ * Load the similarity index and bring it up to date with the repository
+ */
+async function updateIndex(
+  ctx: ActionContext,
+  indexPath: string,
+): Promise<SimilarityIndex> {
+  const repository = `${ctx.owner}/${ctx.repo}`;
+  let index = readIndex(indexPath);
+  if (index && index.repository !== repository) {
+    core.warning(`Ignoring similarity index for ${index.repository}`);
+    index = undefined;
+  }
+
+  const startedAt = new Date().toISOString();
+  const current: SimilarityIndex = index ?? {
+    version: INDEX_VERSION,
+    repository,
+    updated_at: daysAgo(RECENTLY_CLOSED_DAYS),
+    issues: {},
+  };
+
+  // A new index starts from every open issue; updates only fetch changes
+  let fetched = 0;
+  const changed = await ctx.octokit.paginate(
+    ctx.octokit.rest.issues.listForRepo,
+    {
+      owner: ctx.owner,
+      repo: ctx.repo,
+      state: index ? "all" : "open",
+      since: index ? current.updated_at : undefined,
+      sort: "updated",
+      per_page: 100,
+    },
+    (response, done) => {
+      fetched += response.data.length;
+      if (fetched >= MAX_INDEXED_ISSUES) {
+        done();
+      }
+      return response.data;
+    },
+  );
+
+  if (!index) {
+    const recentlyClosed = await ctx.octokit.paginate(
+      ctx.octokit.rest.issues.listForRepo,
+      {
+        owner: ctx.owner,
+        repo: ctx.repo,
+        state: "closed",
+        since: current.updated_at,
+        per_page: 100,
+      },
+    );
+    changed.push(...recentlyClosed);
+  }
+
+  for (const item of changed.slice(0, MAX_INDEXED_ISSUES)) {
+    if (item.pull_request) {
+      continue;
+    }
+    current.issues[item.number] = {
+      title: item.title,
+      body: snippet(item.body || ""),
+      state: item.state,
+      closed_at: item.closed_at,
+      vector: vectorize(`${item.title}\n${item.body || ""}`),
+    };
+  }
+
+  // Forget issues that were closed too long ago to matter
+  const cutoff = daysAgo(RECENTLY_CLOSED_DAYS);
+  for (const [number, entry] of Object.entries(current.issues)) {
+    if (entry.closed_at && entry.closed_at < cutoff) {
+      delete current.issues[number];
+    }
+  }
+
+  current.updated_at = startedAt;
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(current));
+
+  core.info(
+    `Similarity index: ${Object.keys(current.issues).length} issue(s), ${changed.length} updated`,
+  );
+  return current;
+}
+
+function readIndex(indexPath: string): SimilarityIndex | undefined {
+  if (!fs.existsSync(indexPath)) {
+    core.info(`No similarity index at ${indexPath}, building a new one`);
+    return undefined;
+  }
+
+  try {
+    const index = JSON.parse(fs.readFileSync(indexPath, "utf8"));
+    if (index.version === INDEX_VERSION) {
+      return index;
+    }
+    core.info("Similarity index has an old format, rebuilding it");
+  } catch (error) {
+    core.warning(`Failed to read similarity index, rebuilding it: ${error}`);
+  }
+  return undefined;
+}
+
+/**
+ * Most frequent meaningful words, title words first
+ */
+function keywords(title: string, text: string): string[] {
+  const counts = new Map<string, number>();
+  for (const word of tokenize(text)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  for (const word of tokenize(title)) {
+    counts.set(word, (counts.get(word) ?? 0) + 3);
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([word]) => word);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9_-]{2,}/g) ?? []).filter(
+    (word) => !STOPWORDS.has(word),
+  );
+}
+
+/**
+ * Hashed term-frequency vector of words and word pairs, L2-normalized
+ */
+function vectorize(text: string): number[] {
+  const vector = new Array<number>(VECTOR_DIMENSIONS).fill(0);
+  const words = tokenize(text);
+  const terms = [
+    ...words,
+    ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+  ];
+
+  for (const term of terms) {
+    vector[hash(term) % VECTOR_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0
+    ? vector
+    : vector.map((v) => Math.round((v / norm) * 10000) / 10000);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+/**
+ * FNV-1a string hash
+ */
+function hash(term: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    h ^= term.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function snippet(body: string): string {
+  const trimmed = body.trim();
+  return trimmed.length > SNIPPET_LENGTH
+    ? `${trimmed.substring(0, SNIPPET_LENGTH)}...`
+    : trimmed;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
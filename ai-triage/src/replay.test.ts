@@ -0,0 +1,143 @@
+/**
+ * Integration test: a whole triage replayed from a cassette
+ *
+ * The cassette holds every GitHub and model response of triaging an issue
+ * that gets split into two subtasks, so the run needs no network or keys.
+ * Any request the code makes that is not in the cassette fails the run.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as github from "@actions/github";
+import { analyzeIssue } from "./analyze";
+import { DEFAULT_CONFIG } from "./config";
+import { loadLabelTaxonomy } from "./labels";
+import { processTriageAnalysis } from "./process-triage";
+import { fetchExistingSubtasks } from "./subtasks";
+import { createTransport, Transport } from "./transport";
+import { ActionContext } from "./types";
+
+const CASSETTE = path.join(__dirname, "..", "cassettes", "triage-split.json");
+
+interface NotedRequest {
+  method: string;
+  url: string;
+  body?: any;
+}
+
+/**
+ * Triage issue #42 of acme/widgets through the given transport, noting
+ * every request made
+ */
+async function triageWith(transport: Transport): Promise<{
+  analysis: Awaited<ReturnType<typeof analyzeIssue>>["analysis"];
+  requests: NotedRequest[];
+}> {
+  const requests: NotedRequest[] = [];
+  const noting: Transport = async (input, init) => {
+    requests.push({
+      method: init?.method ?? "GET",
+      url: typeof input === "string" ? input : String(input),
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    });
+    return transport(input, init);
+  };
+
+  const ctx: ActionContext = {
+    octokit: github.getOctokit("test-token", { request: { fetch: noting } }),
+    context: github.context,
+    issueNumber: 42,
+    issue: {
+      number: 42,
+      title: "Export widgets as CSV",
+      body: "Users want to download their widgets as a CSV file from the list page.",
+      node_id: "I_42",
+    },
+    owner: "acme",
+    repo: "widgets",
+    dryRun: false,
+    plan: [],
+    keepCommentHistory: false,
+    subtaskLinkMode: "sub-issues",
+  };
+
+  const config = DEFAULT_CONFIG;
+  const labels = await loadLabelTaxonomy(ctx, config, false);
+  const existing = await fetchExistingSubtasks(ctx);
+  const { analysis } = await analyzeIssue(
+    ctx,
+    {
+      models: ["xai/grok-3-mini"],
+      providers: {
+        provider: "",
+        baseUrl: "",
+        keys: { anthropic: "", openai: "", github: "test-token", generic: "" },
+        transport: noting,
+      },
+      maxRepairAttempts: 0,
+      retry: { maxRetries: 0, timeoutMs: 10_000 },
+      contextTokenBudget: 4000,
+      contextWindow: 0,
+      maxTokensPerIssue: 0,
+    },
+    config,
+    existing,
+    [],
+    { comments: [], botComments: [], pullRequests: [], files: [] },
+  );
+  await processTriageAnalysis(ctx, analysis, {
+    descriptionMode: "comment",
+    labels,
+    relatedIssues: [],
+    closeDuplicates: false,
+    rollbackSubtasks: false,
+  });
+
+  return { analysis, requests };
+}
+
+describe("triage replayed from a cassette", () => {
+  it("splits the issue into linked subtasks", async () => {
+    const { analysis, requests } = await triageWith(
+      createTransport("replay", CASSETTE),
+    );
+
+    expect(analysis).toMatchObject({
+      is_agent_ready: false,
+      priority: "P1",
+      size: "L",
+      labels: ["type:feature"],
+      needs_subtasks: true,
+    });
+
+    const created = requests.filter(
+      (r) =>
+        r.method === "POST" &&
+        r.url === "https://api.github.com/repos/acme/widgets/issues",
+    );
+    expect(created.map((r) => r.body.title)).toEqual([
+      "Add a CSV export endpoint",
+      "Add an Export button to the widget list",
+    ]);
+    expect(created[1].body.body).toContain("Blocked by #101\nParent task: #42");
+
+    const linked = requests.filter((r) =>
+      r.body?.query?.includes("addSubIssue"),
+    );
+    expect(linked.map((r) => r.body.variables.subIssueId)).toEqual([
+      "I_101",
+      "I_102",
+    ]);
+
+    // Every recorded response was asked for
+    const cassette = JSON.parse(fs.readFileSync(CASSETTE, "utf8"));
+    expect(requests).toHaveLength(cassette.interactions.length);
+
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        method: "DELETE",
+        url: "https://api.github.com/repos/acme/widgets/issues/42/labels/needs-triage",
+      }),
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Prompt-injection hardening
+ *
+ * Issue titles, bodies, comments and linked content are written by anyone
+ * who can open an issue, yet the model's output drives privileged actions.
+ * Untrusted text is fenced with a delimiter chosen at random per request so
+ * it cannot close the fence itself, common injection phrasing is detected,
+ * and the analysis is checked against a policy before anything is applied.
+ * Issues that trip either check are held for a human instead.
+ */
+
+import { randomBytes } from "crypto";
+import { PolicyConfig, TriageAnalysis, TriageIssue } from "./types";
+
+/** Label applied to issues held for human review */
+export const NEEDS_HUMAN_LABEL = "triage:needs-human";
+
+/**
+ * Phrasing typical of attempts to steer the model, with a description
+ */
+const INJECTION_PATTERNS: [RegExp, string][] = [
+  [
+    /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|system|all)\b[^.\n]{0,20}\b(instructions?|prompts?|rules?|guidelines?)/i,
+    "asks to ignore the instructions",
+  ],
+  [
+    /\b(you are now|from now on,? you|pretend to be|act as (an?|the) (ai|assistant|model|llm))\b/i,
+    "tries to change the model's role",
+  ],
+  [
+    /\b((ignore|reveal|override|repeat) (the|your) system prompt|new instructions|developer mode|jailbreak)\b/i,
+    "refers to the model's instructions",
+  ],
+  [
+    /<\|?(im_start|im_end|system|endoftext)\|?>|^\s*#{1,3}\s*(system|assistant)\s*:?\s*$/im,
+    "contains chat role markers",
+  ],
+  [/<\/?untrusted-/i, "tries to close the untrusted content fence"],
+  [
+    /\b(apply|add|set)\b[^.\n]{0,30}\b(label|priority)\b[^.\n]{0,30}\b(P0|security|critical)\b/i,
+    "dictates labels or priority",
+  ],
+];
+
+/**
+ * Fields of the triage output, as JSON keys
+ *
+ * Only checked outside fenced code blocks: bug reports often quote JSON
+ * that happens to use the same keys.
+ */
+const OUTPUT_FIELDS =
+  /"(is_agent_ready|subtasks_to_create|duplicate_of|labels)"\s*:/;
+
+/** Fenced code blocks (``` or ~~~), up to the end of the text if unclosed */
+const CODE_BLOCK =
+  /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(^ {0,3}\1[^\n]*$|(?![\s\S]))/gm;
+
+/**
+ * GitHub @mentions (not e-mail addresses or code)
+ */
+const MENTION = /(?:^|[^\w`@/])@([a-z\d](?:[a-z\d-]{0,38}))\b/gi;
+
+/**
+ * Pick a fence tag for one request, e.g. "untrusted-3f9a0c1b2d4e"
+ */
+export function createFenceTag(): string {
+  return `untrusted-${randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Wrap untrusted text in the fence, removing any attempt to reproduce it
+ */
+export function fenceUntrusted(text: string, tag: string): string {
+  const cleaned = text.split(`<${tag}>`).join("").split(`</${tag}>`).join("");
+  return `<${tag}>\n${cleaned}\n</${tag}>`;
+}
+
+/**
+ * Look for prompt-injection phrasing in untrusted texts
+ *
+ * `sources` maps a description of where the text came from (e.g. "issue
+ * body") to the text. Returns one finding per source and pattern.
+ */
+export function detectInjection(sources: Record<string, string>): string[] {
+  const findings: string[] = [];
+  for (const [source, text] of Object.entries(sources)) {
+    for (const [pattern, description] of INJECTION_PATTERNS) {
+      if (pattern.test(text)) {
+        findings.push(`Possible prompt injection in ${source}: ${description}`);
+      }
+    }
+    if (OUTPUT_FIELDS.test(text.replace(CODE_BLOCK, ""))) {
+      findings.push(
+        `Possible prompt injection in ${source}: contains triage output fields`,
+      );
+    }
+  }
+  return findings;
+}
+
+/**
+ * Check an analysis against the output policy before it is applied
+ *
+ * Returns the violations found; an empty list means the analysis may be
+ * applied automatically.
+ */
+export function checkPolicy(
+  analysis: TriageAnalysis,
+  policy: PolicyConfig,
+  issue: TriageIssue,
+): string[] {
+  const violations: string[] = [];
+
+  const restricted = policy.restricted_labels.map((l) => l.toLowerCase());
+  const isRestricted = (label: string): boolean => {
+    const name = label.toLowerCase();
+    return (
+      restricted.includes(name) ||
+      restricted.includes(name.slice(name.indexOf(":") + 1))
+    );
+  };
+
+  const labels = [
+    ...analysis.labels,
+    analysis.priority,
+    ...analysis.subtasks_to_create.flatMap((s) => [...s.labels, s.priority]),
+  ];
+  const restrictedUsed = Array.from(new Set(labels.filter(isRestricted)));
+  if (restrictedUsed.length > 0) {
+    violations.push(
+      `Assigns restricted label(s) or priority: ${restrictedUsed.join(", ")}`,
+    );
+  }
+
+  if (analysis.subtasks_to_create.length > policy.max_subtasks) {
+    violations.push(
+      `Creates ${analysis.subtasks_to_create.length} subtasks (limit ${policy.max_subtasks})`,
+    );
+  }
+
+  if (!policy.allow_mentions) {
+    // Users the author mentioned themselves have already been notified
+    const known = new Set(mentions(`${issue.title}\n${issue.body}`));
+    const added = mentions(writtenText(analysis)).filter((m) => !known.has(m));
+    if (added.length > 0) {
+      violations.push(
+        `Mentions users: ${Array.from(new Set(added))
+          .map((m) => `@${m}`)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Every piece of model-written text that ends up on GitHub
+ */
+function writtenText(analysis: TriageAnalysis): string {
+  return [
+    analysis.suggested_assignee
+      ? `@${analysis.suggested_assignee.replace(/^@+/, "")}`
+      : "",
+    analysis.enhanced_description ?? "",
+    analysis.reasoning,
+    analysis.overall_subtask_feedback ?? "",
+    ...analysis.clarifying_questions,
+    ...analysis.subtasks_to_create.flatMap((s) => [s.title, s.body]),
+    ...analysis.subtask_feedback.flatMap((f) => [
+      f.feedback,
+      ...f.suggested_improvements,
+    ]),
+  ].join("\n");
+}
+
+function mentions(text: string): string[] {
+  return Array.from(text.matchAll(MENTION), (m) => m[1].toLowerCase());
+}
@@ -0,0 +1,157 @@
+import { createSubtasks, fetchExistingSubtasks } from "./subtasks";
+import { ActionContext, SubtaskInfo } from "./types";
+
+const SUBTASKS: SubtaskInfo[] = [
+  {
+    id: "api",
+    title: "Add the API",
+    body: "Expose the endpoint.",
+    labels: [],
+    priority: "P1",
+    size: "S",
+    blocked_by: [],
+  },
+  {
+    id: "ui",
+    title: "Add the UI",
+    body: "Call the endpoint.",
+    labels: [],
+    priority: "P2",
+    size: "M",
+    blocked_by: ["api"],
+  },
+];
+
+/**
+ * Context for parent #7 whose GitHub calls are recorded; addSubIssue fails
+ */
+function failingLinkContext() {
+  const created: Array<{ title: string; body: string }> = [];
+  const updated: Array<{ issue_number: number; body: string }> = [];
+  let nextNumber = 10;
+
+  const ctx = {
+    owner: "acme",
+    repo: "widgets",
+    issueNumber: 7,
+    issue: { number: 7, title: "Widgets", body: "", node_id: "I_7" },
+    dryRun: false,
+    plan: [],
+    keepCommentHistory: false,
+    subtaskLinkMode: "sub-issues",
+    octokit: {
+      paginate: async () => [],
+      graphql: async (query: string) => {
+        if (query.includes("addSubIssue")) {
+          throw new Error("Sub-issue limit reached");
+        }
+        if (query.includes("viewer")) {
+          return { viewer: { login: "github-actions[bot]" } };
+        }
+        return { repository: { issue: { subIssues: null } } };
+      },
+      rest: {
+        issues: {
+          listComments: async () => ({ data: [] }),
+          createComment: async () => ({ data: {} }),
+          create: async (params: { title: string; body: string }) => {
+            created.push(params);
+            const number = nextNumber++;
+            return { data: { number, node_id: `I_${number}` } };
+          },
+          update: async (params: { issue_number: number; body: string }) => {
+            updated.push(params);
+            return { data: {} };
+          },
+        },
+      },
+    },
+  } as unknown as ActionContext;
+
+  return { ctx, created, updated };
+}
+
+/**
+ * Context for parent #7 with sub-issue #10; #10 and #12 mention the parent
+ */
+function linkedSubtasksContext(): ActionContext {
+  const subIssue = {
+    number: 10,
+    title: "Add the API",
+    body: "Parent task: #7",
+    state: "OPEN",
+    repository: { nameWithOwner: "acme/widgets" },
+  };
+  return {
+    owner: "acme",
+    repo: "widgets",
+    issueNumber: 7,
+    subtaskLinkMode: "sub-issues",
+    octokit: {
+      graphql: async () => ({
+        repository: {
+          issue: {
+            subIssues: {
+              nodes: [subIssue],
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          },
+        },
+      }),
+      rest: {
+        issues: {
+          listEventsForTimeline: async () => ({ data: [] }),
+          get: async ({ issue_number }: { issue_number: number }) => ({
+            data: {
+              number: issue_number,
+              title: `Issue ${issue_number}`,
+              body: "Parent task: #7",
+              state: "open",
+            },
+          }),
+        },
+        search: {
+          issuesAndPullRequests: async () => ({
+            data: { items: [{ number: 10 }, { number: 12 }] },
+          }),
+        },
+      },
+    },
+  } as unknown as ActionContext;
+}
+
+describe("fetchExistingSubtasks", () => {
+  it("adds subtasks linked only in their body to the sub-issues", async () => {
+    const subtasks = await fetchExistingSubtasks(linkedSubtasksContext());
+
+    expect(subtasks.map((s) => [s.number, s.title])).toEqual([
+      [10, "Add the API"],
+      [12, "Issue 12"],
+    ]);
+  });
+});
+
+describe("createSubtasks", () => {
+  it("creates blockers first and links dependencies by number", async () => {
+    const { ctx, created } = failingLinkContext();
+
+    const subtasks = await createSubtasks(ctx, SUBTASKS, { rollback: false });
+
+    expect(subtasks.map((s) => [s.number, s.isNew])).toEqual([
+      [10, true],
+      [11, true],
+    ]);
+    expect(created[1].body).toContain("Blocked by #10");
+  });
+
+  it("keeps the parent line when the sub-issue link fails", async () => {
+    const { ctx, created, updated } = failingLinkContext();
+
+    const subtasks = await createSubtasks(ctx, SUBTASKS, { rollback: false });
+
+    expect(subtasks).toHaveLength(2);
+    expect(created[0].body).toContain("---\n\nParent task: #7");
+    expect(created[1].body).toContain("Blocked by #10\nParent task: #7");
+    expect(updated).toEqual([]);
+  });
+});
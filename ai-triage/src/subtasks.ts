@@ -5,14 +5,25 @@
 import * as core from "@actions/core";
 import {
   ActionContext,
+  CreatedSubtask,
   SubtaskInfo,
   SubtaskFeedback,
   ExistingSubtask,
 } from "./types";
+import { perform, plannedIssueNumber, issueRef } from "./plan";
+import { upsertComment } from "./comments";
+import {
+  findCreated,
+  loadManifest,
+  rollBack,
+  saveManifest,
+  subtaskMarker,
+  SubtaskManifest,
+} from "./manifest";
+import { orderSubtasks, resolveDependency } from "./dependencies";
 
 /**
  * Fetch existing subtasks for an issue
- * Subtasks are identified by issues that reference the parent issue
  */
 export async function fetchExistingSubtasks(
   ctx: ActionContext,
@@ -20,170 +31,403 @@ export async function fetchExistingSubtasks(
   core.info(`Fetching existing subtasks for issue #${ctx.issueNumber}...`);
 
   try {
-    // Use GitHub's timeline API to find references
-    const timeline = await ctx.octokit.rest.issues.listEventsForTimeline({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      issue_number: ctx.issueNumber,
-      per_page: 100,
-    });
+    // Subtasks linked only in their body, e.g. by a text mode run or after
+    // a failed sub-issue link, count in both modes
+    const subtasks =
+      ctx.subtaskLinkMode === "sub-issues" ? await fetchSubIssues(ctx) : [];
+    for (const subtask of await fetchReferencingIssues(ctx)) {
+      if (!subtasks.some((s) => s.number === subtask.number)) {
+        subtasks.push(subtask);
+      }
+    }
 
-    const subtaskNumbers = new Set<number>();
+    core.info(`Found ${subtasks.length} existing subtasks`);
+    return subtasks;
+  } catch (error) {
+    core.warning(`Error fetching subtasks: ${error}`);
+    return [];
+  }
+}
 
-    // Look for cross-references in timeline events
-    for (const event of timeline.data) {
-      const eventAny = event as any;
-      if (event.event === "cross-referenced" && eventAny.source) {
-        const source = eventAny.source;
-        if (source.issue && source.issue.number !== ctx.issueNumber) {
-          subtaskNumbers.add(source.issue.number);
+/**
+ * Fetch the issue's native sub-issues
+ *
+ * Sub-issues in other repositories are left out, since subtasks are
+ * referred to by number only.
+ */
+async function fetchSubIssues(ctx: ActionContext): Promise<ExistingSubtask[]> {
+  const query = `
+    query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+      repository(owner: $owner, name: $repo) {
+        issue(number: $number) {
+          subIssues(first: 50, after: $cursor) {
+            nodes {
+              number
+              title
+              body
+              state
+              repository {
+                nameWithOwner
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
         }
       }
     }
+  `;
 
-    // Also search for issues that mention this issue in their body
-    const searchQuery = `repo:${ctx.owner}/${ctx.repo} is:issue #${ctx.issueNumber} in:body`;
-    const searchResults = await ctx.octokit.rest.search.issuesAndPullRequests({
-      q: searchQuery,
-      per_page: 100,
+  const repository = `${ctx.owner}/${ctx.repo}`.toLowerCase();
+  const subtasks: ExistingSubtask[] = [];
+  let cursor: string | null = null;
+  do {
+    const result: any = await ctx.octokit.graphql(query, {
+      owner: ctx.owner,
+      repo: ctx.repo,
+      number: ctx.issueNumber,
+      cursor,
     });
+    const page = result.repository?.issue?.subIssues;
+    if (!page) {
+      break;
+    }
 
-    for (const issue of searchResults.data.items) {
-      if (issue.number !== ctx.issueNumber && !issue.pull_request) {
-        subtaskNumbers.add(issue.number);
+    for (const node of page.nodes) {
+      if (node.repository.nameWithOwner.toLowerCase() !== repository) {
+        core.debug(
+          `Skipping sub-issue ${node.repository.nameWithOwner}#${node.number} in another repository`,
+        );
+        continue;
       }
+      subtasks.push({
+        number: node.number,
+        title: node.title,
+        body: node.body || "",
+        state: node.state.toLowerCase(),
+      });
     }
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
 
-    // Fetch full details for each subtask in parallel
-    const subtaskPromises = Array.from(subtaskNumbers).map(
-      async (number): Promise<ExistingSubtask | null> => {
-        try {
-          const { data: issue } = await ctx.octokit.rest.issues.get({
-            owner: ctx.owner,
-            repo: ctx.repo,
-            issue_number: number,
-          });
-          // Only include if the issue body actually references the parent
-          if (
-            issue.body &&
-            (issue.body.includes(`#${ctx.issueNumber}`) ||
-              issue.body.includes(
-                `${ctx.owner}/${ctx.repo}#${ctx.issueNumber}`,
-              ))
-          ) {
-            return {
-              number: issue.number,
-              title: issue.title,
-              body: issue.body || "",
-              state: issue.state,
-            };
-          }
-          return null;
-        } catch (error) {
-          core.warning(`Failed to fetch issue #${number}: ${error}`);
-          return null;
-        }
-      },
-    );
+  return subtasks;
+}
 
-    const results = await Promise.all(subtaskPromises);
-    const subtasks = results.filter(
-      (subtask): subtask is ExistingSubtask => subtask !== null,
-    );
+/**
+ * Find subtasks linked with the text convention: issues that reference the
+ * parent issue in their body
+ */
+async function fetchReferencingIssues(
+  ctx: ActionContext,
+): Promise<ExistingSubtask[]> {
+  // Use GitHub's timeline API to find references
+  const timeline = await ctx.octokit.rest.issues.listEventsForTimeline({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    issue_number: ctx.issueNumber,
+    per_page: 100,
+  });
 
-    core.info(`Found ${subtasks.length} existing subtasks`);
-    return subtasks;
-  } catch (error) {
-    core.warning(`Error fetching subtasks: ${error}`);
-    return [];
+  const subtaskNumbers = new Set<number>();
+
+  // Look for cross-references in timeline events
+  for (const event of timeline.data) {
+    const eventAny = event as any;
+    if (event.event === "cross-referenced" && eventAny.source) {
+      const source = eventAny.source;
+      if (source.issue && source.issue.number !== ctx.issueNumber) {
+        subtaskNumbers.add(source.issue.number);
+      }
+    }
+  }
+
+  // Also search for issues that mention this issue in their body
+  const searchQuery = `repo:${ctx.owner}/${ctx.repo} is:issue #${ctx.issueNumber} in:body`;
+  const searchResults = await ctx.octokit.rest.search.issuesAndPullRequests({
+    q: searchQuery,
+    per_page: 100,
+  });
+
+  for (const issue of searchResults.data.items) {
+    if (issue.number !== ctx.issueNumber && !issue.pull_request) {
+      subtaskNumbers.add(issue.number);
+    }
   }
+
+  // Fetch full details for each subtask in parallel
+  const subtaskPromises = Array.from(subtaskNumbers).map(
+    async (number): Promise<ExistingSubtask | null> => {
+      try {
+        const { data: issue } = await ctx.octokit.rest.issues.get({
+          owner: ctx.owner,
+          repo: ctx.repo,
+          issue_number: number,
+        });
+        // Only include if the issue body actually references the parent
+        if (
+          issue.body &&
+          (issue.body.includes(`#${ctx.issueNumber}`) ||
+            issue.body.includes(`${ctx.owner}/${ctx.repo}#${ctx.issueNumber}`))
+        ) {
+          return {
+            number: issue.number,
+            title: issue.title,
+            body: issue.body || "",
+            state: issue.state,
+          };
+        }
+        return null;
+      } catch (error) {
+        core.warning(`Failed to fetch issue #${number}: ${error}`);
+        return null;
+      }
+    },
+  );
+
+  const results = await Promise.all(subtaskPromises);
+  return results.filter(
+    (subtask): subtask is ExistingSubtask => subtask !== null,
+  );
+}
+
+/**
+ * Options for creating subtasks
+ */
+export interface CreateSubtasksOptions {
+  /** Close the subtasks created in this run if creating another fails */
+  rollback: boolean;
 }
 
 /**
  * Create new subtasks for an issue
+ *
+ * Subtasks get a "Parent task" line in their body and are also linked as
+ * native sub-issues of the parent unless in text mode. Progress is recorded in a
+ * manifest on the parent: subtasks a previous run already created are
+ * reused, and creation stops at the first failure, closing what this run
+ * created when `rollback` is set. Returns the planned subtasks that exist.
  */
 export async function createSubtasks(
   ctx: ActionContext,
   subtasks: SubtaskInfo[],
-): Promise<number[]> {
+  options: CreateSubtasksOptions,
+): Promise<CreatedSubtask[]> {
   core.info(`Creating ${subtasks.length} subtasks...`);
 
-  const createdIssues: number[] = [];
+  // Reuse subtasks created by an earlier, interrupted run
+  const existing = await findCreated(
+    subtasks.map((s) => s.title),
+    await loadManifest(ctx),
+    await fetchExistingSubtasks(ctx),
+    ctx.issueNumber,
+  );
+  const manifest: SubtaskManifest = {
+    status: "in-progress",
+    subtasks: subtasks.map((s) => ({
+      id: s.id,
+      title: s.title,
+      priority: s.priority,
+      size: s.size,
+      number: existing.get(s.title),
+    })),
+  };
+  if (existing.size > 0) {
+    core.info(
+      `Reusing ${existing.size} subtask(s) created by a previous run: ${Array.from(existing.values(), issueRef).join(", ")}`,
+    );
+  }
+  // Intermediate saves only protect real runs; a dry run records the last
+  let saved = false;
+  if (!ctx.dryRun) {
+    await saveManifest(ctx, manifest, saved);
+    saved = true;
+  }
+
   const issueNumberMap = new Map<number, number>();
-  const parentCommentLines: string[] = [];
+  const createdNow: number[] = [];
 
-  // First pass: create all subtasks
-  for (let i = 0; i < subtasks.length; i++) {
+  // Blockers are created first so dependents can name their issue numbers
+  const { order } = orderSubtasks(subtasks);
+  for (const i of order) {
     const subtask = subtasks[i];
+    const entry = manifest.subtasks[i];
+    if (entry.number !== undefined) {
+      issueNumberMap.set(i, entry.number);
+      continue;
+    }
+
     try {
-      // Add reference to parent issue in the body
-      const bodyWithParent = `${subtask.body}\n\n---\n\nParent task: #${ctx.issueNumber}`;
+      const body = withLinks(ctx, subtask, subtasks, issueNumberMap);
 
       // Create the issue
-      const { data: newIssue } = await ctx.octokit.rest.issues.create({
-        owner: ctx.owner,
-        repo: ctx.repo,
-        title: subtask.title,
-        body: bodyWithParent,
-        labels: subtask.labels,
-      });
-
-      createdIssues.push(newIssue.number);
-      issueNumberMap.set(i, newIssue.number);
-      core.info(`✅ Created subtask #${newIssue.number}: ${subtask.title}`);
-
-      // Collect info for batched parent comment
-      const metaInfo = `Priority: ${subtask.priority} | Size: ${subtask.size}`;
-      parentCommentLines.push(
-        `- #${newIssue.number} - ${subtask.title} (${metaInfo})`,
+      const newIssue = await perform(
+        ctx,
+        {
+          type: "create-issue",
+          target: `${ctx.owner}/${ctx.repo}`,
+          description: `Create subtask "${subtask.title}"`,
+          details: {
+            title: subtask.title,
+            body,
+            labels: subtask.labels,
+          },
+        },
+        async () => {
+          const { data } = await ctx.octokit.rest.issues.create({
+            owner: ctx.owner,
+            repo: ctx.repo,
+            title: subtask.title,
+            body,
+            labels: subtask.labels,
+          });
+          return { number: data.number, node_id: data.node_id };
+        },
+        { number: plannedIssueNumber(i), node_id: "" },
       );
+      const newIssueNumber = newIssue.number;
+      entry.number = newIssueNumber;
+      entry.node_id = newIssue.node_id || undefined;
+      createdNow.push(newIssueNumber);
+      issueNumberMap.set(i, newIssueNumber);
+      core.info(
+        `✅ Created subtask ${issueRef(newIssueNumber)}: ${subtask.title}`,
+      );
+      if (!ctx.dryRun) {
+        await saveManifest(ctx, manifest, saved);
+      }
+
+      if (ctx.subtaskLinkMode === "sub-issues") {
+        await addSubIssue(ctx, newIssueNumber, newIssue.node_id);
+      }
     } catch (error) {
       core.error(`Failed to create subtask "${subtask.title}": ${error}`);
+      manifest.error = `"${subtask.title}": ${error}`;
+      break;
     }
   }
 
-  // Post a single batched comment to parent issue with all created subtasks
-  if (parentCommentLines.length > 0) {
-    try {
-      const batchedComment = `✅ **Created ${parentCommentLines.length} subtask(s):**\n\n${parentCommentLines.join("\n")}`;
-      await ctx.octokit.rest.issues.createComment({
-        owner: ctx.owner,
-        repo: ctx.repo,
-        issue_number: ctx.issueNumber,
-        body: batchedComment,
-      });
-    } catch (error) {
-      core.warning(`Failed to post batched comment on parent issue: ${error}`);
+  if (!manifest.error) {
+    manifest.status = "complete";
+  } else if (options.rollback && createdNow.length > 0) {
+    core.warning(
+      `Rolling back: closing the ${createdNow.length} subtask(s) created in this run`,
+    );
+    await rollBack(ctx, createdNow);
+    for (const entry of manifest.subtasks) {
+      if (entry.number !== undefined && createdNow.includes(entry.number)) {
+        entry.number = undefined;
+        entry.node_id = undefined;
+      }
     }
+    manifest.status = "rolled-back";
+    manifest.error += `; closed ${createdNow.map(issueRef).join(", ")}`;
+  } else {
+    manifest.status = "partial";
   }
 
-  // Second pass: add blocked_by comments now that all issues are created
-  for (let i = 0; i < subtasks.length; i++) {
-    const subtask = subtasks[i];
-    const newIssueNumber = issueNumberMap.get(i);
+  try {
+    await saveManifest(ctx, manifest, saved);
+  } catch (error) {
+    core.warning(`Failed to save the subtask manifest on the parent: ${error}`);
+  }
+
+  return manifest.subtasks.flatMap((s) =>
+    s.number !== undefined
+      ? [
+          {
+            number: s.number,
+            node_id: s.node_id ?? "",
+            priority: s.priority,
+            size: s.size,
+            isNew: createdNow.includes(s.number),
+          },
+        ]
+      : [],
+  );
+}
 
-    if (!newIssueNumber) {
-      continue; // Skip if this subtask failed to create
+/**
+ * Add the dependency and parent links to a subtask body
+ *
+ * Dependencies are written as one "Blocked by #N" line each, the format
+ * the subtask manager reads them from. The parent is referenced in every
+ * link mode, since the subtask manager finds subtasks by that reference.
+ * The hidden parent marker lets an interrupted run find the subtasks it
+ * created.
+ */
+function withLinks(
+  ctx: ActionContext,
+  subtask: SubtaskInfo,
+  subtasks: SubtaskInfo[],
+  created: Map<number, number>,
+): string {
+  const lines: string[] = [];
+  for (const ref of subtask.blocked_by) {
+    const dependency = resolveDependency(subtasks, ref);
+    if (!dependency) {
+      core.warning(
+        `Ignoring unknown dependency "${ref}" of "${subtask.title}"`,
+      );
+    } else if ("issue" in dependency) {
+      lines.push(`Blocked by #${dependency.issue}`);
+    } else if (created.has(dependency.sibling)) {
+      lines.push(`Blocked by ${issueRef(created.get(dependency.sibling)!)}`);
+    } else {
+      core.warning(
+        `"${subtask.title}" is blocked by "${subtasks[dependency.sibling].title}", which was not created`,
+      );
     }
+  }
 
-    if (subtask.blocked_by.length > 0) {
-      try {
-        const blockedByText = subtask.blocked_by.map((n) => `#${n}`).join(", ");
-        await ctx.octokit.rest.issues.createComment({
-          owner: ctx.owner,
-          repo: ctx.repo,
-          issue_number: newIssueNumber,
-          body: `⚠️ **Blocked By:** ${blockedByText}\n\nThis subtask depends on the completion of the above tasks. Please complete those before starting this one.`,
-        });
-      } catch (error) {
-        core.warning(
-          `Failed to add blocked_by comment to subtask #${newIssueNumber}: ${error}`,
-        );
+  lines.push(`Parent task: #${ctx.issueNumber}`);
+  const marker = subtaskMarker(ctx.issueNumber);
+  return `${subtask.body}\n\n---\n\n${lines.join("\n")}\n${marker}`;
+}
+
+/**
+ * Link a newly created issue as a sub-issue of the parent
+ *
+ * A subtask that fails to link is kept; it stays linked by the "Parent
+ * task" line in its body.
+ */
+async function addSubIssue(
+  ctx: ActionContext,
+  issueNumber: number,
+  nodeId: string,
+): Promise<void> {
+  const mutation = `
+    mutation($issueId: ID!, $subIssueId: ID!) {
+      addSubIssue(input: {issueId: $issueId, subIssueId: $subIssueId}) {
+        subIssue {
+          number
+        }
       }
     }
-  }
+  `;
 
-  return createdIssues;
+  try {
+    await perform(
+      ctx,
+      {
+        type: "add-sub-issue",
+        target: `#${ctx.issueNumber}`,
+        description: `Add ${issueRef(issueNumber)} as a sub-issue of #${ctx.issueNumber}`,
+        details: { issueId: ctx.issue.node_id, subIssue: issueNumber },
+      },
+      () =>
+        ctx.octokit.graphql(mutation, {
+          issueId: ctx.issue.node_id,
+          subIssueId: nodeId,
+        }),
+      undefined,
+    );
+  } catch (error) {
+    core.warning(
+      `Failed to link ${issueRef(issueNumber)} as a sub-issue of #${ctx.issueNumber}, it stays linked in its body: ${error}`,
+    );
+  }
 }
 
 /**
@@ -213,11 +457,9 @@ export async function postSubtaskFeedback(
         body += `\n\n**Suggested Improvements:**\n${improvements}`;
       }
 
-      await ctx.octokit.rest.issues.createComment({
-        owner: ctx.owner,
-        repo: ctx.repo,
-        issue_number: item.issue_number,
-        body,
+      await upsertComment(ctx, item.issue_number, "subtask-feedback", body, {
+        Ready: item.is_ready ? "yes" : "no",
+        "Suggested improvements": String(item.suggested_improvements.length),
       });
 
       core.info(`✅ Posted feedback on subtask #${item.issue_number}`);
@@ -243,11 +485,8 @@ export async function postSubtaskFeedback(
         `**Subtasks:**\n${subtaskList}\n\n` +
         `**Overall Assessment:**\n${overallFeedback}`;
 
-      await ctx.octokit.rest.issues.createComment({
-        owner: ctx.owner,
-        repo: ctx.repo,
-        issue_number: ctx.issueNumber,
-        body,
+      await upsertComment(ctx, ctx.issueNumber, "subtask-overview", body, {
+        "Ready subtasks": `${feedback.filter((f) => f.is_ready).length}/${feedback.length}`,
       });
 
       core.info("✅ Posted overall subtask feedback on parent issue");
@@ -0,0 +1,37 @@
+/**
+ * Fakes shared by the unit tests
+ */
+
+import { ActionContext } from "./types";
+
+/**
+ * An issue comment as listed by the REST API, reduced to what is read
+ */
+export interface FakeComment {
+  body: string;
+  user: { login: string; type: string };
+}
+
+/** Author of the comments posted with the workflow token */
+export const ACTION_USER = { login: "github-actions[bot]", type: "Bot" };
+
+/**
+ * Context for issue #7 of acme/widgets, whose comments are the given ones
+ *
+ * `token` is the login the token belongs to, the workflow bot by default.
+ */
+export function contextWithComments(
+  comments: FakeComment[],
+  token: string = ACTION_USER.login,
+): ActionContext {
+  return {
+    owner: "acme",
+    repo: "widgets",
+    issueNumber: 7,
+    octokit: {
+      graphql: async () => ({ viewer: { login: token } }),
+      paginate: async () => comments,
+      rest: { issues: { listComments: async () => ({ data: comments }) } },
+    },
+  } as unknown as ActionContext;
+}
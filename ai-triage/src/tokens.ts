@@ -0,0 +1,257 @@
+/**
+ * Token budgeting for the triage prompt and response
+ *
+ * Knows the context window and output limit of common models, estimates
+ * token counts, splits the prompt budget between the parts of the user
+ * prompt and sizes `max_tokens` so large subtask plans are not cut off.
+ */
+
+import { ModelConfig } from "./model-providers";
+
+/**
+ * Token limits of a model
+ */
+export interface ModelLimits {
+  /** Total tokens per request, prompt and response together */
+  contextWindow: number;
+
+  /** Most tokens the model will generate */
+  maxOutputTokens: number;
+}
+
+/**
+ * Parts of the user prompt that share the budget, highest priority first
+ */
+export type PromptSection = "body" | "context" | "subtasks" | "related";
+
+const PROMPT_SECTIONS: PromptSection[] = [
+  "body",
+  "context",
+  "subtasks",
+  "related",
+];
+
+/** Share of the budget each section is guaranteed before leftovers are shared */
+const SECTION_SHARES: Record<PromptSection, number> = {
+  body: 0.35,
+  context: 0.25,
+  subtasks: 0.25,
+  related: 0.15,
+};
+
+/**
+ * Known model limits, matched against the model name in order
+ */
+const MODEL_LIMITS: [RegExp, ModelLimits][] = [
+  [
+    /claude-3-(haiku|sonnet|opus)/,
+    { contextWindow: 200_000, maxOutputTokens: 4_096 },
+  ],
+  [/claude-3-5/, { contextWindow: 200_000, maxOutputTokens: 8_192 }],
+  [/claude-/, { contextWindow: 200_000, maxOutputTokens: 32_000 }],
+  [/gpt-5/, { contextWindow: 400_000, maxOutputTokens: 128_000 }],
+  [/gpt-4\.1/, { contextWindow: 1_047_576, maxOutputTokens: 32_768 }],
+  [/gpt-4o/, { contextWindow: 128_000, maxOutputTokens: 16_384 }],
+  [/gpt-4-turbo/, { contextWindow: 128_000, maxOutputTokens: 4_096 }],
+  [/gpt-4/, { contextWindow: 8_192, maxOutputTokens: 4_096 }],
+  [/gpt-3\.5/, { contextWindow: 16_385, maxOutputTokens: 4_096 }],
+  [/(^|\/)o1-mini/, { contextWindow: 128_000, maxOutputTokens: 65_536 }],
+  [/(^|\/)o1-preview/, { contextWindow: 128_000, maxOutputTokens: 32_768 }],
+  [/(^|\/)o[134]/, { contextWindow: 200_000, maxOutputTokens: 100_000 }],
+  [/grok/, { contextWindow: 131_072, maxOutputTokens: 16_384 }],
+  [
+    /llama-?3\.[123]|llama-?4/,
+    { contextWindow: 128_000, maxOutputTokens: 4_096 },
+  ],
+  [/mistral|codestral/, { contextWindow: 32_000, maxOutputTokens: 4_096 }],
+];
+
+/** Limits assumed for models not in the table */
+const DEFAULT_LIMITS: ModelLimits = {
+  contextWindow: 8_192,
+  maxOutputTokens: 4_096,
+};
+
+/**
+ * Per-request limits imposed by providers regardless of the model
+ *
+ * GitHub Models allows 8000 input and 4000 output tokens per request.
+ */
+const PROVIDER_LIMITS: Record<string, ModelLimits> = {
+  github: { contextWindow: 12_000, maxOutputTokens: 4_000 },
+};
+
+/** Response tokens for the analysis itself, without subtasks */
+const OUTPUT_BASE_TOKENS = 1_500;
+
+/** Response tokens per new subtask (title, detailed body, metadata) */
+const OUTPUT_TOKENS_PER_SUBTASK = 600;
+
+/** Subtasks a large plan may contain */
+const MAX_PLANNED_SUBTASKS = 20;
+
+/** Response tokens per existing subtask that gets feedback */
+const OUTPUT_TOKENS_PER_FEEDBACK = 250;
+
+/** Tokens kept free for prompt headings and estimation error */
+const SAFETY_MARGIN = 0.1;
+
+/** The prompt always gets at least this many tokens, even on tiny models */
+const MIN_PROMPT_TOKENS = 1_000;
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * Uses ~3.5 characters per token, slightly pessimistic for English prose
+ * so that code and non-English text do not overflow the budget.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+/**
+ * Cut a text down to roughly the given number of tokens
+ */
+export function truncateToTokens(text: string, tokens: number): string {
+  if (estimateTokens(text) <= tokens) {
+    return text;
+  }
+  const length = Math.max(0, Math.floor(tokens * 3.5) - 15);
+  return `${text.substring(0, length)}...(truncated)`;
+}
+
+/**
+ * Token limits for a model
+ *
+ * `contextWindowOverride` (the `context-window` input) replaces the table
+ * lookup for models it does not know. Provider limits always apply.
+ */
+export function getModelLimits(
+  config: ModelConfig,
+  contextWindowOverride = 0,
+): ModelLimits {
+  const model = config.model.toLowerCase();
+  const known = MODEL_LIMITS.find(([pattern]) => pattern.test(model));
+  const limits = { ...(known ? known[1] : DEFAULT_LIMITS) };
+
+  if (contextWindowOverride > 0) {
+    limits.contextWindow = contextWindowOverride;
+    limits.maxOutputTokens = Math.min(
+      limits.maxOutputTokens,
+      Math.floor(contextWindowOverride / 2),
+    );
+  }
+
+  const provider = PROVIDER_LIMITS[config.provider];
+  if (provider) {
+    limits.contextWindow = Math.min(
+      limits.contextWindow,
+      provider.contextWindow,
+    );
+    limits.maxOutputTokens = Math.min(
+      limits.maxOutputTokens,
+      provider.maxOutputTokens,
+    );
+  }
+
+  return limits;
+}
+
+/**
+ * Limits every model in a fallback list can handle
+ */
+export function commonModelLimits(
+  configs: ModelConfig[],
+  contextWindowOverride = 0,
+): ModelLimits {
+  const all = configs.map((c) => getModelLimits(c, contextWindowOverride));
+  return {
+    contextWindow: Math.min(...all.map((l) => l.contextWindow)),
+    maxOutputTokens: Math.min(...all.map((l) => l.maxOutputTokens)),
+  };
+}
+
+/**
+ * Response tokens to request: room for a large subtask plan and feedback on
+ * every existing subtask, within the model's output limit
+ *
+ * At most half the context window is reserved for the response.
+ */
+export function plannedOutputTokens(
+  limits: ModelLimits,
+  existingSubtasks: number,
+): number {
+  const wanted =
+    OUTPUT_BASE_TOKENS +
+    OUTPUT_TOKENS_PER_SUBTASK * MAX_PLANNED_SUBTASKS +
+    OUTPUT_TOKENS_PER_FEEDBACK * existingSubtasks;
+
+  return Math.min(
+    wanted,
+    limits.maxOutputTokens,
+    Math.floor(limits.contextWindow / 2),
+  );
+}
+
+/**
+ * Tokens available for the user prompt once the system prompt and the
+ * response are accounted for
+ */
+export function promptTokenBudget(
+  limits: ModelLimits,
+  systemPrompt: string,
+  outputTokens: number,
+): number {
+  const available =
+    limits.contextWindow * (1 - SAFETY_MARGIN) -
+    estimateTokens(systemPrompt) -
+    outputTokens;
+  return Math.max(MIN_PROMPT_TOKENS, Math.floor(available));
+}
+
+/**
+ * Tokens available for the user prompt under a per-issue token limit
+ *
+ * The limit covers the system prompt, the user prompt and the response of
+ * the first call; repair rounds are checked separately.
+ */
+export function issuePromptBudget(
+  maxTokensPerIssue: number,
+  systemPrompt: string,
+  outputTokens: number,
+): number {
+  const available =
+    maxTokensPerIssue - estimateTokens(systemPrompt) - outputTokens;
+  return Math.max(MIN_PROMPT_TOKENS, Math.floor(available));
+}
+
+/**
+ * Split the prompt budget between sections
+ *
+ * Each section first gets what it needs up to its share of the budget;
+ * whatever is left over goes to sections that still need more, in
+ * priority order. Sections never get more than they need.
+ */
+export function allocatePromptBudget(
+  budget: number,
+  needs: Record<PromptSection, number>,
+): Record<PromptSection, number> {
+  const allocation = {} as Record<PromptSection, number>;
+  let left = budget;
+
+  for (const section of PROMPT_SECTIONS) {
+    allocation[section] = Math.min(
+      needs[section],
+      Math.floor(budget * SECTION_SHARES[section]),
+    );
+    left -= allocation[section];
+  }
+
+  for (const section of PROMPT_SECTIONS) {
+    const extra = Math.min(needs[section] - allocation[section], left);
+    allocation[section] += extra;
+    left -= extra;
+  }
+
+  return allocation;
+}
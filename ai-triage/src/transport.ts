@@ -0,0 +1,164 @@
+/**
+ * Injectable HTTP transport with record and replay modes
+ *
+ * Every HTTP request the action makes - model provider calls and the
+ * GitHub API through Octokit - goes through a transport with the signature
+ * of fetch(). In record mode the requests are made and the responses are
+ * saved to a cassette file; in replay mode the responses are served from
+ * the cassette without any network access, so a triage run can be
+ * reproduced offline and deterministically.
+ */
+
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A fetch()-compatible function
+ */
+export type Transport = typeof fetch;
+
+/**
+ * How HTTP requests are made
+ * - live: straight to the network
+ * - record: to the network, saving every response to the cassette
+ * - replay: served from the cassette, failing on unrecorded requests
+ */
+export type HttpMode = "live" | "record" | "replay";
+
+const CASSETTE_VERSION = 1;
+
+/** Response headers never written to a cassette */
+const SKIPPED_HEADERS = ["set-cookie", "content-encoding", "content-length"];
+
+/**
+ * A recorded request and its response
+ *
+ * Request headers are not recorded so credentials stay out of cassettes.
+ */
+interface Interaction {
+  request: { method: string; url: string; body?: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+interface Cassette {
+  version: number;
+  interactions: Interaction[];
+}
+
+/**
+ * Create the transport for an HTTP mode
+ *
+ * Requests are matched to recordings by method and URL, in the order they
+ * were recorded. Request bodies are not compared because prompts contain
+ * per-run values such as the untrusted content fence.
+ */
+export function createTransport(
+  mode: HttpMode,
+  cassettePath: string,
+): Transport {
+  if (mode === "live") {
+    return fetch;
+  }
+  if (!cassettePath) {
+    throw new Error(`http-mode '${mode}' requires a cassette-path`);
+  }
+  return mode === "record"
+    ? recordingTransport(cassettePath)
+    : replayingTransport(cassettePath);
+}
+
+function recordingTransport(cassettePath: string): Transport {
+  const cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+  core.info(`📼 Recording HTTP interactions to ${cassettePath}`);
+
+  return async (input, init) => {
+    const request = describeRequest(input, init);
+    const response = await fetch(input, init);
+    const body = await response.text();
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of response.headers) {
+      if (!SKIPPED_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    }
+
+    cassette.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body,
+      },
+    });
+    // Written after every interaction so a failed run still leaves a cassette
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2));
+
+    return toResponse(cassette.interactions[cassette.interactions.length - 1]);
+  };
+}
+
+function replayingTransport(cassettePath: string): Transport {
+  const cassette: Cassette = JSON.parse(fs.readFileSync(cassettePath, "utf8"));
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(
+      `Cassette ${cassettePath} has version ${cassette.version}, expected ${CASSETTE_VERSION}`,
+    );
+  }
+  core.info(
+    `📼 Replaying ${cassette.interactions.length} HTTP interaction(s) from ${cassettePath}`,
+  );
+
+  const used = new Set<number>();
+  return async (input, init) => {
+    const { method, url } = describeRequest(input, init);
+    const index = cassette.interactions.findIndex(
+      (interaction, i) =>
+        !used.has(i) &&
+        interaction.request.method === method &&
+        interaction.request.url === url,
+    );
+    if (index === -1) {
+      throw new Error(`No recorded response for ${method} ${url}`);
+    }
+
+    used.add(index);
+    return toResponse(cassette.interactions[index]);
+  };
+}
+
+function describeRequest(
+  input: Parameters<Transport>[0],
+  init: Parameters<Transport>[1],
+): Interaction["request"] {
+  const url =
+    typeof input === "string"
+      ? input
+      : input instanceof URL
+        ? input.href
+        : input.url;
+  const method = (
+    init?.method ??
+    (typeof input === "object" && "method" in input ? input.method : "GET")
+  ).toUpperCase();
+  const body = typeof init?.body === "string" ? init.body : undefined;
+  return { method, url, body };
+}
+
+function toResponse(interaction: Interaction): Response {
+  const { status, statusText, headers, body } = interaction.response;
+  // 204 and 304 responses may not have a body
+  return new Response([204, 304].includes(status) ? null : body, {
+    status,
+    statusText,
+    headers,
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Trigger rules: decide whether an event should start a triage
+ *
+ * Rules come from the `triggers` list of the triage config and are checked
+ * in order; the first rule whose conditions all hold decides whether the
+ * triage runs or is skipped. Events no rule matches are skipped.
+ */
+
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import { parse } from "yaml";
+import { RepoContext, TriggerRule } from "./types";
+
+/** Directory holding the repository's issue templates */
+const TEMPLATE_DIR = ".github/ISSUE_TEMPLATE";
+
+/**
+ * Outcome of checking the trigger rules
+ */
+export interface TriggerDecision {
+  run: boolean;
+
+  /** The rule that decided, if any */
+  rule?: TriggerRule;
+
+  /** Why the event was run or skipped, for the logs */
+  reason: string;
+}
+
+/**
+ * Check the trigger rules against the event that started the workflow
+ */
+export async function evaluateTriggers(
+  ctx: RepoContext,
+  context: typeof github.context,
+  rules: TriggerRule[],
+): Promise<TriggerDecision> {
+  const event = `${context.eventName}.${context.payload.action ?? ""}`;
+  const templates = new Map<string, string[] | undefined>();
+
+  for (const rule of rules) {
+    const mismatch = await checkRule(ctx, context, rule, templates);
+    if (mismatch) {
+      core.debug(`Trigger rule '${rule.name}' does not match: ${mismatch}`);
+      continue;
+    }
+    return {
+      run: rule.action === "run",
+      rule,
+      reason: `rule '${rule.name}' matched ${event}`,
+    };
+  }
+
+  return {
+    run: false,
+    reason: `no trigger rule matched ${event} (rules: ${rules.map((r) => r.name).join(", ")})`,
+  };
+}
+
+/**
+ * Return why a rule does not match the event, or undefined when it does
+ */
+async function checkRule(
+  ctx: RepoContext,
+  context: typeof github.context,
+  rule: TriggerRule,
+  templates: Map<string, string[] | undefined>,
+): Promise<string | undefined> {
+  const { payload } = context;
+  const issue = payload.issue;
+  const comment = payload.comment;
+
+  if (
+    rule.events.length > 0 &&
+    !rule.events.some(
+      (e) =>
+        e === context.eventName ||
+        e === `${context.eventName}.${payload.action}`,
+    )
+  ) {
+    return `event ${context.eventName}.${payload.action} is not one of ${rule.events.join(", ")}`;
+  }
+
+  if (rule.labels.length > 0) {
+    // For labeled events only the label just added counts
+    const labels: string[] = payload.label
+      ? [payload.label.name]
+      : (issue?.labels ?? []).map((l: any) => l.name);
+    if (!labels.some((l) => rule.labels.includes(l))) {
+      return `labels ${labels.join(", ") || "(none)"} do not include ${rule.labels.join(", ")}`;
+    }
+  }
+
+  // Comment events are about the comment's author, others the issue's
+  const author = comment ?? issue;
+  if (
+    rule.author_associations.length > 0 &&
+    !rule.author_associations.includes(author?.author_association)
+  ) {
+    return `author association ${author?.author_association} is not one of ${rule.author_associations.join(", ")}`;
+  }
+  if (
+    rule.author_types.length > 0 &&
+    !rule.author_types.includes(author?.user?.type)
+  ) {
+    return `author type ${author?.user?.type} is not one of ${rule.author_types.join(", ")}`;
+  }
+
+  if (
+    rule.title_pattern &&
+    !new RegExp(rule.title_pattern).test(issue?.title ?? "")
+  ) {
+    return `title does not match ${rule.title_pattern}`;
+  }
+  if (
+    rule.body_pattern &&
+    !new RegExp(rule.body_pattern).test(issue?.body ?? "")
+  ) {
+    return `body does not match ${rule.body_pattern}`;
+  }
+
+  if (rule.command) {
+    const firstLine = (comment?.body ?? "").trim().split("\n")[0];
+    if (!isCommand(firstLine, rule.command)) {
+      return `comment does not start with ${rule.command}`;
+    }
+  }
+
+  if (rule.templates.length > 0) {
+    const body = issue?.body ?? "";
+    let followed = false;
+    for (const name of rule.templates) {
+      if (!templates.has(name)) {
+        templates.set(name, await loadTemplateHeadings(ctx, name));
+      }
+      const headings = templates.get(name);
+      if (headings && headings.every((h) => body.includes(h))) {
+        followed = true;
+        break;
+      }
+    }
+    if (!followed) {
+      return `issue does not follow template ${rule.templates.join(", ")}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a line is the slash command, alone or followed by arguments
+ */
+function isCommand(line: string, command: string): boolean {
+  return line === command || line.startsWith(`${command} `);
+}
+
+/**
+ * Headings an issue created from a template contains
+ *
+ * Issue forms (.yml) render each field as a "### <label>" heading; the
+ * headings of markdown templates (.md) are copied into the issue as-is.
+ * Returns undefined when the template does not exist.
+ */
+async function loadTemplateHeadings(
+  ctx: RepoContext,
+  name: string,
+): Promise<string[] | undefined> {
+  for (const extension of [".yml", ".yaml", ".md"]) {
+    const path = `${TEMPLATE_DIR}/${name}${extension}`;
+    let content: string;
+    try {
+      const { data } = await ctx.octokit.rest.repos.getContent({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        path,
+      });
+      if (Array.isArray(data) || !("content" in data)) {
+        continue;
+      }
+      content = Buffer.from(data.content, "base64").toString("utf8");
+    } catch (error: any) {
+      if (error.status === 404) {
+        continue;
+      }
+      throw error;
+    }
+
+    if (extension === ".md") {
+      // Skip the front matter, keep the headings of the template body
+      const body = content.replace(/^---\n[\s\S]*?\n---\n/, "");
+      return body
+        .split("\n")
+        .filter((line) => /^#{1,6}\s/.test(line))
+        .map((line) => line.trim());
+    }
+
+    const form = parse(content);
+    return (form?.body ?? [])
+      .filter(
+        (field: any) => field.type !== "markdown" && field.attributes?.label,
+      )
+      .map((field: any) => `### ${field.attributes.label}`);
+  }
+
+  core.warning(`Issue template '${name}' not found in ${TEMPLATE_DIR}`);
+  return undefined;
+}
@@ -26,18 +26,113 @@ export interface ExistingSubtask {
   state: string;
 }
 
+/**
+ * Candidate related or duplicate issue found by searching the repository
+ */
+export interface RelatedIssue {
+  /** Issue number */
+  number: number;
+
+  /** Issue title */
+  title: string;
+
+  /** Start of the issue body */
+  body: string;
+
+  /** Issue state (open/closed) */
+  state: string;
+
+  /** Similarity to the triaged issue, 0-1 (higher is closer) */
+  score: number;
+}
+
+/**
+ * Comment on the triaged issue
+ */
+export interface IssueComment {
+  author: string;
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Pull request linked to the triaged issue
+ */
+export interface LinkedPullRequest {
+  number: number;
+  title: string;
+
+  /** open, closed or merged */
+  state: string;
+
+  /** Start of the pull request description */
+  body: string;
+
+  /** Paths of the files the pull request changes */
+  files: string[];
+}
+
+/**
+ * Excerpt of a repository file referenced from the issue
+ */
+export interface FileSnippet {
+  path: string;
+
+  /** First and last line of the excerpt (1-based, inclusive) */
+  startLine: number;
+  endLine: number;
+
+  content: string;
+}
+
+/**
+ * Discussion and code around the issue, beyond its title and body
+ */
+export interface IssueContext {
+  /** Comments from people, oldest first */
+  comments: IssueComment[];
+
+  /** One-line summaries of bot comments (empty when excluded) */
+  botComments: string[];
+
+  pullRequests: LinkedPullRequest[];
+  files: FileSnippet[];
+}
+
+/**
+ * A subtask issue of the triaged issue, created now or by an earlier run
+ */
+export interface CreatedSubtask {
+  number: number;
+
+  /** GraphQL node ID; empty when not known (e.g. planned in a dry run) */
+  node_id: string;
+
+  priority: Priority;
+  size: Size;
+
+  /** Created by this run, rather than reused from an earlier one */
+  isNew: boolean;
+}
+
 /**
  * Subtask information for creating new subtasks
  */
 export interface SubtaskInfo {
+  /** Local id other subtasks of the same analysis use in blocked_by */
+  id: string;
+
   /** Title of the subtask */
   title: string;
 
   /** Description/body of the subtask */
   body: string;
 
-  /** Issue numbers this subtask is blocked by (within same parent) */
-  blocked_by: number[];
+  /**
+   * What this subtask is blocked by: ids (or positions, "1" being the
+   * first) of sibling subtasks, or "#N" for existing issues
+   */
+  blocked_by: string[];
 
   /** Labels to apply to the subtask */
   labels: string[];
@@ -85,6 +180,9 @@ export interface TriageAnalysis {
   /** Related issue numbers */
   related_issues: number[];
 
+  /** Issue this one duplicates, chosen from the candidate issues */
+  duplicate_of: number | null;
+
   /** Suggested assignee GitHub username */
   suggested_assignee: string | null;
 
@@ -110,6 +208,57 @@ export interface TriageAnalysis {
   overall_subtask_feedback: string | null;
 }
 
+/**
+ * How the final analysis was obtained
+ * - valid: the first response passed validation
+ * - coerced: passed after lenient coercion, without asking the model again
+ * - repaired: passed after one or more repair rounds
+ * - failed: no valid analysis after all repair rounds
+ */
+export type AnalysisOutcome = "valid" | "coerced" | "repaired" | "failed";
+
+/**
+ * Analysis together with how it was obtained
+ */
+export interface AnalysisResult {
+  analysis: TriageAnalysis;
+
+  outcome: AnalysisOutcome;
+
+  /** Number of follow-up turns sent to fix an invalid response */
+  repairRounds: number;
+
+  /** Tokens used by each model call */
+  usage: ModelUsage[];
+}
+
+/**
+ * Token usage of a single model call
+ */
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+
+  /** Token counts were estimated because the API did not report them */
+  estimated: boolean;
+
+  /** Wall-clock time of the call, retries included */
+  latencyMs: number;
+
+  /** When the call completed (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Model price in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
 /**
  * GitHub Project V2 field types
  */
@@ -125,6 +274,16 @@ export interface ProjectSingleSelectField extends ProjectField {
   }>;
 }
 
+export interface ProjectIterationField extends ProjectField {
+  /** Active and upcoming iterations */
+  iterations: Array<{
+    id: string;
+    title: string;
+    startDate: string;
+    duration: number;
+  }>;
+}
+
 /**
  * Project configuration
  */
@@ -132,6 +291,42 @@ export interface ProjectConfig {
   owner: string;
   number: number;
   id?: string;
+
+  /** Text field set to the parent issue on subtasks (e.g. "Epic") */
+  parentField?: string;
+
+  /** Iteration field set to the current iteration on subtasks */
+  iterationField?: string;
+}
+
+/**
+ * A GitHub mutation recorded instead of performed in dry-run mode
+ */
+export interface PlannedOperation {
+  /** Kind of operation, e.g. "add-labels", "create-comment" */
+  type: string;
+
+  /** What the operation acts on, e.g. "#12" or "project #4" */
+  target: string;
+
+  /** Human-readable summary */
+  description: string;
+
+  /** Request parameters that would have been sent */
+  details: Record<string, unknown>;
+}
+
+/**
+ * The issue being triaged
+ */
+export interface TriageIssue {
+  number: number;
+  title: string;
+  body: string;
+  node_id: string;
+
+  /** Label names when the issue was loaded, if known */
+  labels?: string[];
 }
 
 /**
@@ -141,8 +336,203 @@ export interface ActionContext {
   octokit: InstanceType<typeof GitHub>;
   context: typeof github.context;
   issueNumber: number;
+  issue: TriageIssue;
   owner: string;
   repo: string;
+
+  /** When set, mutations are recorded in `plan` instead of performed */
+  dryRun: boolean;
+  plan: PlannedOperation[];
+
+  /** Keep previous versions of updated triage comments in a history block */
+  keepCommentHistory: boolean;
+
+  /** How subtasks are linked to their parent issue */
+  subtaskLinkMode: SubtaskLinkMode;
+}
+
+/**
+ * How subtasks are linked to their parent issue
+ * - sub-issues: GitHub's native sub-issues, shown in the issue sidebar
+ * - text: a "Parent task: #N" line in the subtask body (for hosts without
+ *   sub-issues)
+ */
+export type SubtaskLinkMode = "sub-issues" | "text";
+
+/**
+ * Label definition from the triage config file
+ */
+export interface LabelDefinition {
+  /** Label name without its prefix (e.g. "bug" for "type:bug") */
+  name: string;
+
+  /** What the label means, shown to the model */
+  description: string;
+
+  /** Hex color used when the label is created (e.g. "d73a4a") */
+  color?: string;
+
+  /** Other names the model may use for this label (e.g. "enhancement") */
+  aliases: string[];
+}
+
+/**
+ * Repository-level triage configuration (.github/ai-triage.yml)
+ */
+export interface TriageConfig {
+  /** Project the issues belong to */
+  project: {
+    name: string;
+    description: string;
+  };
+
+  /** Label taxonomy the model may choose from */
+  labels: {
+    types: LabelDefinition[];
+    scopes: LabelDefinition[];
+  };
+
+  /** Guidelines for each priority level */
+  priorities: Record<Priority, string>;
+
+  /** Guidelines for each size estimate */
+  sizes: Record<Size, string>;
+
+  /** Criteria an issue must meet to be agent-ready */
+  agent_ready_criteria: string[];
+
+  /** Prices by model name prefix, overriding the built-in price table */
+  prices: Record<string, ModelPrice>;
+
+  /** Spending limits */
+  budget: BudgetConfig;
+
+  /** What the analysis may do without a human */
+  policy: PolicyConfig;
+
+  /** Sensitive data removed from prompts */
+  redaction: RedactionConfig;
+
+  /** Which events start a triage, first matching rule wins */
+  triggers: TriggerRule[];
+
+  /** Who may use /triage commands */
+  commands: CommandsConfig;
+}
+
+/**
+ * A trigger rule: every condition that is set must hold for it to match
+ */
+export interface TriggerRule {
+  /** Shown in the logs when the rule decides */
+  name: string;
+
+  /** Run or skip the triage when the rule matches */
+  action: "run" | "skip";
+
+  /** "event.action" pairs such as "issues.opened", or a bare event name */
+  events: string[];
+
+  /** The added label (labeled events) or any issue label must be one of these */
+  labels: string[];
+
+  /** Author association of the issue or comment author, e.g. MEMBER, NONE */
+  author_associations: string[];
+
+  /** Account type of the issue or comment author: User or Bot */
+  author_types: string[];
+
+  /** Regular expression the issue title must match */
+  title_pattern?: string;
+
+  /** Regular expression the issue body must match */
+  body_pattern?: string;
+
+  /** Issue templates (file names in .github/ISSUE_TEMPLATE, without extension) the issue must follow */
+  templates: string[];
+
+  /** Slash command a comment must start with, e.g. "/triage" */
+  command?: string;
+}
+
+/**
+ * Repository permission levels, lowest first
+ */
+export type PermissionLevel =
+  | "read"
+  | "triage"
+  | "write"
+  | "maintain"
+  | "admin";
+
+/**
+ * Settings for /triage commands posted in issue comments
+ */
+export interface CommandsConfig {
+  /** Lowest repository permission a commenter needs to use the commands */
+  permission: PermissionLevel;
+}
+
+/**
+ * Triage values set by a maintainer, kept when the issue is re-triaged
+ */
+export interface TriageOverrides {
+  priority?: Priority;
+  size?: Size;
+  is_agent_ready?: boolean;
+}
+
+/**
+ * Sensitive-data redaction settings
+ */
+export interface RedactionConfig {
+  /** Redact before prompts are sent to the model */
+  enabled: boolean;
+
+  /** Extra patterns, e.g. for internal hostnames */
+  patterns: RedactionPattern[];
+}
+
+/**
+ * User-supplied redaction pattern
+ */
+export interface RedactionPattern {
+  /** Name used in placeholders, e.g. "hostname" -> [REDACTED_HOSTNAME_1] */
+  name: string;
+
+  /** Regular expression (JavaScript syntax) */
+  pattern: string;
+}
+
+/**
+ * Output policy checked before an analysis is applied
+ */
+export interface PolicyConfig {
+  /** Labels and priorities only a human may assign (e.g. "security", "P0") */
+  restricted_labels: string[];
+
+  /** Most subtasks created for one issue */
+  max_subtasks: number;
+
+  /** Allow @mentions the issue author did not write */
+  allow_mentions: boolean;
+}
+
+/**
+ * Spending limits for model calls (0 disables a limit)
+ */
+export interface BudgetConfig {
+  /** Model calls per UTC day across all runs */
+  max_calls_per_day: number;
+
+  /** Estimated USD per UTC month across all runs */
+  max_cost_per_month: number;
+
+  /** Input and output tokens spent on a single issue */
+  max_tokens_per_issue: number;
+
+  /** Cheaper models used once a limit is reached; issues are deferred when empty */
+  fallback_models: string[];
 }
 
 /**
@@ -153,4 +543,21 @@ export interface ProjectFields {
   status: ProjectSingleSelectField;
   priority: ProjectSingleSelectField;
   size: ProjectSingleSelectField;
+
+  /** Optional fields for subtasks, when configured and found */
+  parent?: ProjectField;
+  iteration?: ProjectIterationField;
 }
+
+/**
+ * Repository access, for work not tied to a single issue
+ */
+export type RepoContext = Pick<ActionContext, "octokit" | "owner" | "repo">;
+
+/**
+ * The issue being analyzed, without GitHub access (e.g. when evaluating)
+ */
+export type AnalysisContext = Pick<
+  ActionContext,
+  "owner" | "repo" | "issueNumber" | "issue"
+>;
@@ -5,18 +5,29 @@
 import * as core from "@actions/core";
 import {
   ActionContext,
+  CreatedSubtask,
   TriageAnalysis,
   ProjectConfig,
+  ProjectField,
   ProjectFields,
+  ProjectIterationField,
   ProjectSingleSelectField,
 } from "./types";
+import { issueRef, perform } from "./plan";
+
+/**
+ * Project field values; fields left undefined are not changed
+ */
+export type ProjectValues = Partial<
+  Pick<TriageAnalysis, "is_agent_ready" | "priority" | "size">
+>;
 
 /**
  * Add issue to project and update fields
  */
 export async function updateProjectFields(
   ctx: ActionContext,
-  analysis: TriageAnalysis,
+  values: ProjectValues,
   projectConfig: ProjectConfig,
 ): Promise<void> {
   core.info("Updating project fields...");
@@ -28,13 +39,118 @@ export async function updateProjectFields(
   const itemId = await addIssueToProject(ctx, fields.projectId);
 
   // Update fields
-  await updateStatus(ctx, fields, itemId, analysis.is_agent_ready);
-  await updatePriority(ctx, fields, itemId, analysis.priority);
-  await updateSize(ctx, fields, itemId, analysis.size);
+  if (values.is_agent_ready !== undefined) {
+    await updateStatus(ctx, fields, itemId, values.is_agent_ready);
+  }
+  if (values.priority) {
+    await updatePriority(ctx, fields, itemId, values.priority);
+  }
+  if (values.size) {
+    await updateSize(ctx, fields, itemId, values.size);
+  }
 
   core.info("✅ Project fields updated");
 }
 
+/**
+ * Add newly created subtasks to the project with their own status,
+ * priority and size
+ *
+ * Subtasks start in the backlog. The parent field and the current
+ * iteration are set too when the project config names them. A subtask that
+ * fails is reported and the rest are still added.
+ */
+export async function addSubtasksToProject(
+  ctx: ActionContext,
+  subtasks: CreatedSubtask[],
+  projectConfig: ProjectConfig,
+): Promise<void> {
+  if (subtasks.length === 0) {
+    return;
+  }
+  core.info(`Adding ${subtasks.length} subtask(s) to the project...`);
+
+  const fields = await getProjectFields(ctx, projectConfig);
+  const iteration = fields.iteration && currentIteration(fields.iteration);
+  if (fields.iteration && !iteration) {
+    core.warning(
+      `No current iteration in "${fields.iteration.name}"; subtasks are added without one`,
+    );
+  }
+
+  for (const subtask of subtasks) {
+    try {
+      const subtaskCtx = forSubtask(ctx, subtask);
+      const itemId = await addIssueToProject(subtaskCtx, fields.projectId);
+
+      await updateStatus(subtaskCtx, fields, itemId, false);
+      await updatePriority(subtaskCtx, fields, itemId, subtask.priority);
+      await updateSize(subtaskCtx, fields, itemId, subtask.size);
+      if (fields.parent) {
+        await updateFieldValue(
+          subtaskCtx,
+          fields.projectId,
+          itemId,
+          fields.parent,
+          { text: `#${ctx.issueNumber}` },
+          `#${ctx.issueNumber}`,
+        );
+      }
+      if (fields.iteration && iteration) {
+        await updateFieldValue(
+          subtaskCtx,
+          fields.projectId,
+          itemId,
+          fields.iteration,
+          { iterationId: iteration.id },
+          iteration.title,
+        );
+      }
+
+      core.info(`✅ Added subtask ${issueRef(subtask.number)} to the project`);
+    } catch (error) {
+      core.warning(
+        `Failed to add subtask ${issueRef(subtask.number)} to the project: ${error}`,
+      );
+    }
+  }
+}
+
+/**
+ * The action context for a subtask
+ */
+function forSubtask(
+  ctx: ActionContext,
+  subtask: CreatedSubtask,
+): ActionContext {
+  return {
+    ...ctx,
+    issueNumber: subtask.number,
+    issue: {
+      number: subtask.number,
+      title: "",
+      body: "",
+      node_id: subtask.node_id,
+    },
+  };
+}
+
+/**
+ * The iteration running today, if any
+ */
+function currentIteration(
+  field: ProjectIterationField,
+): ProjectIterationField["iterations"][number] | undefined {
+  const today = new Date().toISOString().slice(0, 10);
+  return field.iterations.find((iteration) => {
+    const end = new Date(iteration.startDate);
+    end.setUTCDate(end.getUTCDate() + iteration.duration);
+    return (
+      iteration.startDate <= today && today < end.toISOString().slice(0, 10)
+    );
+  });
+}
+
 /**
  * Fetch project fields and their IDs
  */
@@ -54,6 +170,7 @@ async function getProjectFields(
               ... on ProjectV2Field {
                 id
                 name
+                dataType
               }
               ... on ProjectV2SingleSelectField {
                 id
@@ -63,6 +180,18 @@ async function getProjectFields(
                   name
                 }
               }
+              ... on ProjectV2IterationField {
+                id
+                name
+                configuration {
+                  iterations {
+                    id
+                    title
+                    startDate
+                    duration
+                  }
+                }
+              }
             }
           }
         }
@@ -75,6 +204,7 @@ async function getProjectFields(
               ... on ProjectV2Field {
                 id
                 name
+                dataType
               }
               ... on ProjectV2SingleSelectField {
                 id
@@ -84,6 +214,18 @@ async function getProjectFields(
                   name
                 }
               }
+              ... on ProjectV2IterationField {
+                id
+                name
+                configuration {
+                  iterations {
+                    id
+                    title
+                    startDate
+                    duration
+                  }
+                }
+              }
             }
           }
         }
@@ -124,14 +266,46 @@ async function getProjectFields(
     );
   }
 
-  core.info("✅ Project fields fetched");
-
-  return {
+  const fields: ProjectFields = {
     projectId,
     status: statusField,
     priority: priorityField,
     size: sizeField,
   };
+
+  // Optional subtask fields only warn when missing
+  if (projectConfig.parentField) {
+    const parentField = fieldNodes.find(
+      (f: any) => f.name === projectConfig.parentField,
+    );
+    if (parentField?.dataType === "TEXT") {
+      fields.parent = { id: parentField.id, name: parentField.name };
+    } else {
+      core.warning(
+        `Project text field "${projectConfig.parentField}" not found; the parent of subtasks is not set`,
+      );
+    }
+  }
+  if (projectConfig.iterationField) {
+    const iterationField = fieldNodes.find(
+      (f: any) => f.name === projectConfig.iterationField,
+    );
+    if (iterationField?.configuration) {
+      fields.iteration = {
+        id: iterationField.id,
+        name: iterationField.name,
+        iterations: iterationField.configuration.iterations,
+      };
+    } else {
+      core.warning(
+        `Project iteration field "${projectConfig.iterationField}" not found; subtasks are added without an iteration`,
+      );
+    }
+  }
+
+  core.info("✅ Project fields fetched");
+
+  return fields;
 }
 
 /**
@@ -153,15 +327,23 @@ async function addIssueToProject(
     }
   `;
 
-  const issueNodeId = ctx.context.payload.issue?.node_id;
-  if (!issueNodeId) {
-    throw new Error("Issue node_id not found in context");
-  }
+  const issueNodeId = ctx.issue.node_id;
 
-  const result: any = await ctx.octokit.graphql(mutation, {
-    projectId,
-    contentId: issueNodeId,
-  });
+  const result: any = await perform(
+    ctx,
+    {
+      type: "add-to-project",
+      target: issueRef(ctx.issueNumber),
+      description: "Add issue to project",
+      details: { projectId, contentId: issueNodeId },
+    },
+    () =>
+      ctx.octokit.graphql(mutation, {
+        projectId,
+        contentId: issueNodeId,
+      }),
+    { addProjectV2ItemById: { item: { id: "(planned project item)" } } },
+  );
 
   if (
     !result.addProjectV2ItemById ||
@@ -202,8 +384,8 @@ async function updateStatus(
     ctx,
     fields.projectId,
     itemId,
-    fields.status.id,
-    statusOption.id,
+    fields.status,
+    statusOption,
   );
 
   core.info(`Set status to: ${targetStatus}`);
@@ -231,8 +413,8 @@ async function updatePriority(
     ctx,
     fields.projectId,
     itemId,
-    fields.priority.id,
-    priorityOption.id,
+    fields.priority,
+    priorityOption,
   );
 
   core.info(`Set priority to: ${priority}`);
@@ -258,8 +440,8 @@ async function updateSize(
     ctx,
     fields.projectId,
     itemId,
-    fields.size.id,
-    sizeOption.id,
+    fields.size,
+    sizeOption,
   );
 
   core.info(`Set size to: ${size}`);
@@ -272,17 +454,38 @@ async function updateSingleSelectField(
   ctx: ActionContext,
   projectId: string,
   itemId: string,
-  fieldId: string,
-  optionId: string,
+  field: ProjectSingleSelectField,
+  option: { id: string; name: string },
+): Promise<void> {
+  await updateFieldValue(
+    ctx,
+    projectId,
+    itemId,
+    field,
+    { singleSelectOptionId: option.id },
+    option.name,
+  );
+}
+
+/**
+ * Update any field with a ProjectV2FieldValue (generic helper)
+ */
+async function updateFieldValue(
+  ctx: ActionContext,
+  projectId: string,
+  itemId: string,
+  field: ProjectField,
+  value: Record<string, string>,
+  display: string,
 ): Promise<void> {
   const mutation = `
-    mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: String!) {
+    mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
       updateProjectV2ItemFieldValue(
         input: {
           projectId: $projectId
           itemId: $itemId
           fieldId: $fieldId
-          value: {singleSelectOptionId: $value}
+          value: $value
         }
       ) {
         projectV2Item {
@@ -292,10 +495,21 @@ async function updateSingleSelectField(
     }
   `;
 
-  await ctx.octokit.graphql(mutation, {
-    projectId,
-    itemId,
-    fieldId,
-    value: optionId,
-  });
+  await perform(
+    ctx,
+    {
+      type: "update-project-field",
+      target: issueRef(ctx.issueNumber),
+      description: `Set ${field.name} to ${display}`,
+      details: { projectId, itemId, fieldId: field.id, value },
+    },
+    () =>
+      ctx.octokit.graphql(mutation, {
+        projectId,
+        itemId,
+        fieldId: field.id,
+        value,
+      }),
+    undefined,
+  );
 }
@@ -0,0 +1,230 @@
+/**
+ * Token usage and cost accounting
+ *
+ * Every model call records its token counts and latency. At the end of a
+ * run the totals are priced with a per-model price table, published as
+ * outputs and in the job summary, and optionally appended to a JSONL
+ * ledger file so costs can be tracked across runs.
+ */
+
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import { ModelPrice, ModelUsage } from "./types";
+
+/**
+ * Built-in prices in USD per million tokens, by model name prefix
+ *
+ * Prefixes are matched against the model name with and without its vendor
+ * (e.g. "openai/gpt-4o" also matches "gpt-4o"); the longest match wins.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-haiku-4": { input: 1, output: 5 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  o3: { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+};
+
+/**
+ * Providers that cost nothing per token unless a price is configured
+ * (GitHub Models free tier, local Ollama models)
+ */
+const FREE_PROVIDERS = ["github", "ollama"];
+
+/**
+ * Model calls made while triaging one issue
+ */
+export interface IssueUsage {
+  issue: number;
+  usage: ModelUsage[];
+}
+
+/**
+ * Where usage is reported
+ */
+export interface UsageReportOptions {
+  /** Prices from the repository config, overriding the built-in table */
+  prices: Record<string, ModelPrice>;
+
+  /** JSONL file each call is appended to; disabled when empty */
+  ledgerPath: string;
+
+  /** "owner/repo", recorded in the ledger */
+  repository: string;
+
+  /** Workflow run ID, recorded in the ledger */
+  runId: number;
+}
+
+/**
+ * Estimated cost of a model call in USD
+ *
+ * Returns null when the model has no known price.
+ */
+export function estimateCost(
+  usage: ModelUsage,
+  prices: Record<string, ModelPrice> = {},
+): number | null {
+  const price =
+    findPrice(usage.model, prices) ?? findPrice(usage.model, DEFAULT_PRICES);
+  if (!price) {
+    return FREE_PROVIDERS.includes(usage.provider) ? 0 : null;
+  }
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Publish token usage and cost as outputs, in the job summary and in the
+ * ledger
+ */
+export async function reportUsage(
+  entries: IssueUsage[],
+  options: UsageReportOptions,
+): Promise<void> {
+  const calls = entries.flatMap((entry) =>
+    entry.usage.map((usage) => ({
+      issue: entry.issue,
+      usage,
+      cost: estimateCost(usage, options.prices),
+    })),
+  );
+
+  const inputTokens = sum(calls.map((c) => c.usage.inputTokens));
+  const outputTokens = sum(calls.map((c) => c.usage.outputTokens));
+  const cost = sum(calls.map((c) => c.cost ?? 0));
+
+  core.setOutput("model-calls", calls.length);
+  core.setOutput("input-tokens", inputTokens);
+  core.setOutput("output-tokens", outputTokens);
+  core.setOutput("cost", cost.toFixed(6));
+
+  const unpriced = new Set(
+    calls.filter((c) => c.cost === null).map((c) => c.usage.model),
+  );
+  if (unpriced.size > 0) {
+    core.warning(
+      `No price known for ${Array.from(unpriced).join(", ")}; add it under prices in the triage config`,
+    );
+  }
+
+  core.info(
+    `💰 ${calls.length} model call(s): ${inputTokens} input + ${outputTokens} output tokens, ~$${cost.toFixed(4)}`,
+  );
+
+  if (calls.length === 0) {
+    return;
+  }
+
+  await core.summary
+    .addHeading("AI Triage usage", 3)
+    .addTable([
+      [
+        { data: "Issue", header: true },
+        { data: "Model", header: true },
+        { data: "Input tokens", header: true },
+        { data: "Output tokens", header: true },
+        { data: "Latency", header: true },
+        { data: "Cost (USD)", header: true },
+      ],
+      ...calls.map((c) => [
+        `#${c.issue}`,
+        `${c.usage.provider}/${c.usage.model}`,
+        `${c.usage.inputTokens}${c.usage.estimated ? " (est.)" : ""}`,
+        `${c.usage.outputTokens}${c.usage.estimated ? " (est.)" : ""}`,
+        `${(c.usage.latencyMs / 1000).toFixed(1)}s`,
+        c.cost === null ? "unknown" : c.cost.toFixed(4),
+      ]),
+      [
+        "Total",
+        "",
+        String(inputTokens),
+        String(outputTokens),
+        "",
+        cost.toFixed(4),
+      ],
+    ])
+    .write();
+
+  if (options.ledgerPath) {
+    appendToLedger(options, calls);
+  }
+}
+
+/**
+ * Append one JSON line per model call to the ledger
+ *
+ * Failures are logged; the ledger never fails the run.
+ */
+function appendToLedger(
+  options: UsageReportOptions,
+  calls: { issue: number; usage: ModelUsage; cost: number | null }[],
+): void {
+  const lines = calls.map((c) =>
+    JSON.stringify({
+      timestamp: c.usage.timestamp,
+      repository: options.repository,
+      run_id: options.runId,
+      issue: c.issue,
+      provider: c.usage.provider,
+      model: c.usage.model,
+      input_tokens: c.usage.inputTokens,
+      output_tokens: c.usage.outputTokens,
+      estimated: c.usage.estimated,
+      latency_ms: c.usage.latencyMs,
+      cost: c.cost,
+    }),
+  );
+
+  try {
+    fs.mkdirSync(path.dirname(options.ledgerPath), { recursive: true });
+    fs.appendFileSync(options.ledgerPath, `${lines.join("\n")}\n`);
+    core.info(`Appended ${lines.length} record(s) to ${options.ledgerPath}`);
+  } catch (error) {
+    core.warning(`Failed to write usage ledger: ${error}`);
+  }
+}
+
+/**
+ * Price for the longest prefix matching the model name
+ */
+function findPrice(
+  model: string,
+  prices: Record<string, ModelPrice>,
+): ModelPrice | undefined {
+  const name = model.toLowerCase();
+  const bare = name.slice(name.lastIndexOf("/") + 1);
+
+  let best: string | undefined;
+  for (const prefix of Object.keys(prices)) {
+    const key = prefix.toLowerCase();
+    if (
+      (name.startsWith(key) || bare.startsWith(key)) &&
+      key.length > (best?.length ?? -1)
+    ) {
+      best = prefix;
+    }
+  }
+  return best === undefined ? undefined : prices[best];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}